@@ -4,12 +4,17 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { HashRouter, Routes, Route } from "react-router-dom";
 
+import BackgroundProvider from "@/components/BackgroundProvider";
 import Starfield from "@/components/Starfield";
 import Navigation from "@/components/Navigation";
+import CommandPalette from "@/components/CommandPalette";
+import DebugOverlay from "@/components/DebugOverlay";
 
 import Index from "./pages/Index";
 import Projects from "./pages/Projects";
+import CaseStudy from "./pages/CaseStudy";
 import Experience from "./pages/Experience";
+import Tech from "./pages/Tech";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,17 +26,24 @@ const App = () => (
       <Sonner />
 
       <HashRouter>
-        {/* Global fixed layers (render once, outside page content) */}
-        <Starfield starCount={200} speed={0.25} />
-        <Navigation />
+        <BackgroundProvider>
+          {/* Global fixed layers (render once, outside page content); pages tune the starfield with useBackground */}
+          <Starfield />
+          <Navigation />
+          <CommandPalette />
+          <DebugOverlay />
 
-        {/* Page content */}
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/projects" element={<Projects />} />
-          <Route path="/experience" element={<Experience />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+          {/* Page content */}
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/projects" element={<Projects />} />
+            <Route path="/projects/:id" element={<Projects />} />
+            <Route path="/projects/:id/case-study" element={<CaseStudy />} />
+            <Route path="/experience" element={<Experience />} />
+            <Route path="/tech/:tag" element={<Tech />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BackgroundProvider>
       </HashRouter>
     </TooltipProvider>
   </QueryClientProvider>
@@ -1,52 +1,100 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { ExternalLink, Github, X, ChevronRight } from 'lucide-react';
-import projectsData from '@/data/projects.json';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import AsteroidPreviewCard from '@/components/AsteroidPreviewCard';
+import { useDebug } from '@/hooks/use-debug';
+import { useDevice } from '@/hooks/use-device';
+import { useQuality } from '@/hooks/use-quality';
+import { projects, type Project } from '@/data/content';
+import { debugStore, reportFrame } from '@/lib/debug';
+import { createRng, range, type Rng } from '@/lib/random';
+import { LAYER, ticker } from '@/lib/ticker';
+import {
+  clampCamera,
+  easeInOutCubic,
+  lerpCamera,
+  panBy,
+  visibleRect,
+  worldToScreen,
+  zoomAt,
+  type Camera,
+  type Extent,
+} from '@/lib/asteroids/camera';
+import { asteroidStyles, packAsteroids } from '@/lib/asteroids/layout';
+import { LABEL_GAP, settle, type Bounds } from '@/lib/asteroids/physics';
+import { createFieldRenderer, type FieldRenderer } from '@/lib/asteroids/renderer';
+import type { FieldAsteroid, FieldFrame, FieldRendererKind, FieldSize, FieldView } from '@/lib/asteroids/scene';
 
-const hasLink = (href?: string | null) => typeof href === 'string' && href.trim().length > 0;
-
-const LABEL_GAP = 18; // pixels below asteroid
 const LABEL_W_DESKTOP = 280; // fixed label width
 const LABEL_H_DESKTOP = 44; // fixed label height (enough for 2 lines)
-
-// Toggle debug hitboxes 
-const DEBUG_HITBOXES = false;
-
-interface Project {
-  id: string;
-  name: string;
-  tagline: string;
-  description: string;
-  tech: string[];
-  links: { github: string; demo: string };
-  impact: string[];
-  asteroid: { x: number; y: number; size: number; color: string };
-}
-
-interface Asteroid {
-  project: Project;
-  x: number;
-  y: number;
-  size: number;
-  rotation: number;
-  driftX: number;
-  driftY: number;
-  rotationSpeed: number;
-  vertices: { x: number; y: number }[];
-  r: number; // body collision radius
+const LABEL_W_COMPACT = 150; // touch: name only, so rocks can sit closer on a small screen
+const LABEL_H_COMPACT = 18;
+
+
+interface AsteroidFieldProps {
+  onSelectProject: (project: Project) => void;
+  // Projects matching the active filter; null = no filter. Others are dimmed and not clickable.
+  matchingIds?: Set<string> | null;
+  // Mixed into each project's id to seed its shape and motion. The default ('') gives the
+  // same field on every load; pass a different value for a different (still repeatable) one.
+  seed?: string;
+  // Drawing backend, read once on mount
+  renderer?: FieldRendererKind;
 }
 
-const AsteroidField = () => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+// The world is bigger than the viewport; the camera starts centered at 1x over the middle
+const WORLD_SCALE = 1.6;
+const FLY_MS = 650;
+const SELECT_ZOOM = 1.25; // fly-to zooms in at least this far before opening a project
+const DRAG_THRESHOLD = 4; // px before a press becomes a pan instead of a click
+const ZOOM_STEP = 1.25;
+const PREVIEW_CLOSE_MS = 200; // grace period to move the pointer from an asteroid onto its card
+const THROW_WINDOW_MS = 100; // pointer samples this recent set the throw velocity
+const MINIMAP_W = 160;
+const MINIMAP_W_TOUCH = 112;
+const MAX_DPR = 1.5;
+const MAX_DPR_TOUCH = 1.25; // phone screens are dense enough that the difference is hard to see
+
+const ROW_BAND = 140; // asteroids within this vertical distance count as one row for tab order
+
+// Reading order: top-to-bottom in coarse rows, then left-to-right within a row
+const spatialOrder = (asteroids: FieldAsteroid[]) =>
+  asteroids
+    .slice()
+    .sort((a, b) => Math.floor(a.y / ROW_BAND) - Math.floor(b.y / ROW_BAND) || a.x - b.x)
+    .map((a) => a.id);
+
+const projectById = new Map(projects.map((p) => [p.id, p]));
+const styles = asteroidStyles(projects);
+
+const AsteroidField = ({
+  onSelectProject,
+  matchingIds = null,
+  seed = '',
+  renderer: rendererKind = 'auto',
+}: AsteroidFieldProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const asteroidsRef = useRef<Asteroid[]>([]);
-  const animationRef = useRef<number>();
+  const rendererRef = useRef<FieldRenderer | null>(null);
+  const asteroidsRef = useRef<FieldAsteroid[]>([]);
   const lastSizeRef = useRef({ width: 0, height: 0 });
   const labelRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const labelsReadyRef = useRef(false);
   const stableFramesRef = useRef(0);
   const lastStableSizeRef = useRef({ w: 0, h: 0 });
 
+  // Camera state lives here; the renderer gets a copy whenever it changes
+  const worldRef = useRef<Extent>({ width: 0, height: 0 });
+  const cameraRef = useRef<Camera>({ x: 0, y: 0, zoom: 1 });
+  const frameRef = useRef<FieldFrame | null>(null); // latest drawn frame
+  const flyRef = useRef<(() => void) | null>(null); // removes the running flight's ticker layer
+  const minimapDotRefs = useRef<Record<string, SVGCircleElement | null>>({});
+  const minimapViewRef = useRef<SVGRectElement>(null);
+
+  // Hover preview: the anchor box is moved over the previewed asteroid every frame
+  const previewAnchorRef = useRef<HTMLDivElement>(null);
+  const previewIdRef = useRef<string | null>(null);
+  const previewCloseRef = useRef<number | null>(null);
+  const cardHoveredRef = useRef(false);
+
 
   const isIOSSafari = useRef(false);
     useEffect(() => {
@@ -56,24 +104,26 @@ const AsteroidField = () => {
         /iP(ad|hone|od)/.test(ua) && /Safari/.test(ua) && !/CriOS|FxiOS|EdgiOS/.test(ua);
     }, []);
 
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [hoveredAsteroid, setHoveredAsteroid] = useState<string | null>(null);
-  
-
-  const getColor = useCallback((colorName: string): string => {
-    const colors: Record<string, string> = {
-      primary: 'hsl(185, 100%, 50%)',
-      secondary: 'hsl(270, 60%, 50%)',
-      accent: 'hsl(25, 100%, 55%)',
-      hologram: 'hsl(185, 100%, 70%)',
-    };
-    return colors[colorName] || colors.primary;
-  }, []);
-
-  const generateAsteroidVertices = useCallback((size: number): { x: number; y: number }[] => {
+  const [focusedAsteroid, setFocusedAsteroid] = useState<string | null>(null);
+  const [tabOrder, setTabOrder] = useState<string[]>(() => projects.map((p) => p.id));
+  const [announcement, setAnnouncement] = useState('');
+  const [world, setWorld] = useState<Extent>({ width: 0, height: 0 }); // minimap viewBox
+  const [isDragging, setIsDragging] = useState(false);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const debug = useDebug();
+  const { touch, reducedMotion, viewport: viewportClass } = useDevice();
+  // Follows the adaptive tier down when the starfield reports dropped frames
+  const quality = useQuality();
+  const maxDpr = Math.min(touch ? MAX_DPR_TOUCH : MAX_DPR, quality.maxDpr);
+
+  const isDimmed = (id: string) => !!matchingIds && !matchingIds.has(id);
+
+  const generateAsteroidVertices = useCallback((size: number, rng: Rng): { x: number; y: number }[] => {
     const points = 18;
     const vertices: { x: number; y: number }[] = [];
-    const seed = Math.random() * Math.PI * 2;
+    const seed = rng() * Math.PI * 2;
 
     for (let i = 0; i < points; i++) {
       const angle = (i / points) * Math.PI * 2;
@@ -94,457 +144,243 @@ const AsteroidField = () => {
     return vertices;
   }, []);
 
+  const generateCraters = useCallback((rng: Rng) => {
+    return Array.from({ length: 3 }, () => {
+      const angle = rng() * Math.PI * 2;
+      const dist = range(rng, 0.04, 0.22);
+      return { x: Math.cos(angle) * dist, y: Math.sin(angle) * dist, r: range(rng, 0.05, 0.11) };
+    });
+  }, []);
+
   // ---------- Label geometry ----------
 
   const getLabelDims = useCallback(() => {
-    const w = window.innerWidth >= 1024 ? LABEL_W_DESKTOP : 240;
-    const h = window.innerWidth >= 1024 ? LABEL_H_DESKTOP : 40;
+    if (touch) return { w: LABEL_W_COMPACT, h: LABEL_H_COMPACT };
+    const w = viewportClass === 'desktop' ? LABEL_W_DESKTOP : 240;
+    const h = viewportClass === 'desktop' ? LABEL_H_DESKTOP : 40;
     return { w, h };
-  }, []);
+  }, [touch, viewportClass]);
 
-  const getLabelRect = useCallback(
-    (a: Asteroid) => {
-      const { w, h } = getLabelDims();
-      return {
-        x: a.x - w / 2,
-        y: a.y + a.r + LABEL_GAP,
-        w,
-        h,
-      };
-    },
+  // The simulation never measures the DOM; everything it needs comes through here
+  const getBounds = useCallback(
+    (width: number, height: number): Bounds => ({ width, height, label: getLabelDims() }),
     [getLabelDims]
   );
 
+  // Frames come back from the renderer (possibly a worker); labels and the minimap follow
+  // the camera each frame was drawn with, so they never drift from the canvas
+  const applyFrame = useCallback((frame: FieldFrame) => {
+  frameRef.current = frame;
+  reportFrame('asteroids', frame.stats);
+  const viewport = lastSizeRef.current;
+  const { camera } = frame;
+  const dpr = Math.max(1, window.devicePixelRatio || 1);
+  const snap = (v: number) => (Math.round(v * dpr) / dpr);
 
-type Pt = { x: number; y: number };
-type MTV = { nx: number; ny: number; overlap: number };
-
-// ---------- Convex hull (Monotonic chain) ----------
-const cross = (o: Pt, a: Pt, b: Pt) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  for (const body of frame.bodies) {
+    const el = labelRefs.current[body.id];
+    if (el) {
+      let { x, y } = worldToScreen(camera, viewport, { x: body.x, y: body.y + body.r + LABEL_GAP });
 
-const convexHull = (pts: Pt[]): Pt[] => {
-  if (pts.length <= 3) return pts.slice();
+      // only snap on iOS Safari to avoid subpixel shimmer
+      if (isIOSSafari.current) {
+        x = snap(x);
+        y = snap(y);
+      }
 
-  const p = pts
-    .slice()
-    .sort((a, b) => (a.x === b.x ? a.y - b.y : a.x - b.x));
+      // hide until we have stabilized layout
+      if (!labelsReadyRef.current) {
+        el.style.opacity = '0';
+      }
 
-  const lower: Pt[] = [];
-  for (const pt of p) {
-    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], pt) <= 0) {
-      lower.pop();
+      el.style.transform = `translate3d(${x}px, ${y}px, 0) translateX(-50%) scale(${camera.zoom})`;
     }
-    lower.push(pt);
-  }
 
-  const upper: Pt[] = [];
-  for (let i = p.length - 1; i >= 0; i--) {
-    const pt = p[i];
-    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], pt) <= 0) {
-      upper.pop();
+    const dot = minimapDotRefs.current[body.id];
+    if (dot) {
+      dot.setAttribute('cx', String(body.x));
+      dot.setAttribute('cy', String(body.y));
     }
-    upper.push(pt);
   }
 
-  upper.pop();
-  lower.pop();
-  return lower.concat(upper);
-};
-
-// ---------- SAT (convex polygon vs convex polygon) ----------
-const dot = (a: Pt, b: Pt) => a.x * b.x + a.y * b.y;
-
-const projectPoly = (poly: Pt[], axis: Pt) => {
-  let min = dot(poly[0], axis);
-  let max = min;
-  for (let i = 1; i < poly.length; i++) {
-    const d = dot(poly[i], axis);
-    if (d < min) min = d;
-    if (d > max) max = d;
+  const anchor = previewAnchorRef.current;
+  const previewed = previewIdRef.current && frame.bodies.find((b) => b.id === previewIdRef.current);
+  if (anchor && previewed) {
+    const p = worldToScreen(camera, viewport, previewed);
+    const r = previewed.r * camera.zoom;
+    anchor.style.width = `${r * 2}px`;
+    anchor.style.height = `${r * 2}px`;
+    anchor.style.transform = `translate3d(${p.x - r}px, ${p.y - r}px, 0)`;
   }
-  return { min, max };
-};
 
-const normalize = (v: Pt) => {
-  const len = Math.hypot(v.x, v.y) || 1e-9;
-  return { x: v.x / len, y: v.y / len };
-};
-
-const satMTV = (A: Pt[], B: Pt[]): MTV | null => {
-  let bestOverlap = Infinity;
-  let bestAxis: Pt | null = null;
-
-  const testAxesFrom = (poly: Pt[]) => {
-    for (let i = 0; i < poly.length; i++) {
-      const p1 = poly[i];
-      const p2 = poly[(i + 1) % poly.length];
-      const edge = { x: p2.x - p1.x, y: p2.y - p1.y };
-
-      // perpendicular axis
-      const axis = normalize({ x: -edge.y, y: edge.x });
-
-      const pA = projectPoly(A, axis);
-      const pB = projectPoly(B, axis);
-
-      const overlap = Math.min(pA.max, pB.max) - Math.max(pA.min, pB.min);
-      if (overlap <= 0) return { separated: true as const };
-
-      if (overlap < bestOverlap) {
-        bestOverlap = overlap;
-        bestAxis = axis;
-      }
-    }
-    return { separated: false as const };
-  };
-
-  const r1 = testAxesFrom(A);
-  if (r1.separated) return null;
-  const r2 = testAxesFrom(B);
-  if (r2.separated) return null;
-
-  if (!bestAxis) return null;
-
-  // Ensure axis points from A -> B (consistent MTV direction)
-  const ac = centroid(A);
-  const bc = centroid(B);
-  const dir = { x: bc.x - ac.x, y: bc.y - ac.y };
-  if (dot(dir, bestAxis) < 0) bestAxis = { x: -bestAxis.x, y: -bestAxis.y };
-
-  return { nx: bestAxis.x, ny: bestAxis.y, overlap: bestOverlap };
-};
-
-const centroid = (poly: Pt[]) => {
-  let x = 0,
-    y = 0;
-  for (const p of poly) {
-    x += p.x;
-    y += p.y;
+  const view = minimapViewRef.current;
+  if (view) {
+    const r = visibleRect(camera, viewport);
+    view.setAttribute('x', String(r.x));
+    view.setAttribute('y', String(r.y));
+    view.setAttribute('width', String(r.width));
+    view.setAttribute('height', String(r.height));
   }
-  return { x: x / poly.length, y: y / poly.length };
-};
-
-
-  const asteroidWorldPoly = useCallback(
-    (a: Asteroid): Pt[] => {
-      const rad = (a.rotation * Math.PI) / 180;
-      const c = Math.cos(rad);
-      const s = Math.sin(rad);
-
-      // asteroid polygon vertices (world)
-      const rock = a.vertices.map((v) => ({
-        x: a.x + v.x * c - v.y * s,
-        y: a.y + v.x * s + v.y * c,
-      }));
-
-      // label rectangle corners (world)
-      const r = getLabelRect(a);
-      const label: Pt[] = [
-        { x: r.x, y: r.y },
-        { x: r.x + r.w, y: r.y },
-        { x: r.x + r.w, y: r.y + r.h },
-        { x: r.x, y: r.y + r.h },
-      ];
-
-      // One convex collider covering both rock + label (stable)
-      return convexHull([...rock, ...label]);
-    },
-    [getLabelRect]
-  );
-
-
-  // ---------- Wall bounds ----------
-
-  const clampToBounds = useCallback(
-    (a: Asteroid, width: number, height: number) => {
-      const REST = 0.98;
-      const padding = 40;
-      const topBiasMaxY = height * 0.72;
-
-      const { w, h } = getLabelDims();
-      const halfW = w / 2;
-
-      const extentX = Math.max(a.r, halfW);
-      const extentYTop = a.r;
-      const extentYBottom = a.r + LABEL_GAP + h;
-
-      const minX = padding + extentX;
-      const maxX = width - padding - extentX;
-      const minY = padding + extentYTop;
-      const maxY = Math.max(minY + 50, topBiasMaxY - extentYBottom);
-
-      const EPS = 0.35;
 
-      if (a.x < minX) {
-        const pen = minX - a.x;
-        a.x = minX + pen + EPS;
-        a.driftX = Math.abs(a.driftX) * REST;
-      } else if (a.x > maxX) {
-        const pen = a.x - maxX;
-        a.x = maxX - pen - EPS;
-        a.driftX = -Math.abs(a.driftX) * REST;
+  // After a couple stable frames, reveal labels (prevents iPad initial jump/pop)
+  if (!labelsReadyRef.current) {
+    stableFramesRef.current += 1;
+    if (stableFramesRef.current >= 2) {
+      labelsReadyRef.current = true;
+      for (const key of Object.keys(labelRefs.current)) {
+        const el = labelRefs.current[key];
+        if (el) el.style.opacity = '1';
       }
-
-      if (a.y < minY) {
-        const pen = minY - a.y;
-        a.y = minY + pen + EPS;
-        a.driftY = Math.abs(a.driftY) * REST;
-      } else if (a.y > maxY) {
-        const pen = a.y - maxY;
-        a.y = maxY - pen - EPS;
-        a.driftY = -Math.abs(a.driftY) * REST;
-      }
-    },
-    [getLabelDims]
-  );
-
-    const positionLabels = useCallback(() => {
-  const dpr = Math.max(1, window.devicePixelRatio || 1);
-  const snap = (v: number) => (Math.round(v * dpr) / dpr);
-
-  for (const a of asteroidsRef.current) {
-    const el = labelRefs.current[a.project.id];
-    if (!el) continue;
-
-    // compute target
-    let x = a.x;
-    let y = a.y + a.size / 2 + LABEL_GAP;
-
-    // only snap on iOS Safari to avoid subpixel shimmer
-    if (isIOSSafari.current) {
-      x = snap(x);
-      y = snap(y);
     }
-
-    // hide until we have stabilized layout
-    if (!labelsReadyRef.current) {
-      el.style.opacity = '0';
-    }
-
-    el.style.transform = `translate3d(${x}px, ${y}px, 0) translateX(-50%)`;
   }
 }, []);
 
+  // ---------- Camera ----------
 
-  // ---------- Overlap solver (stable) ----------
-
-  const resolveOverlaps = useCallback(
-    (asteroids: Asteroid[], width: number, height: number, iterations: number) => {
-      const SEP = 0.25;       // extra spacing to avoid re-stick
-      const VEL_DAMP = 0.55;  // reduce buzz
-
-      for (let it = 0; it < iterations; it++) {
-        for (let i = 0; i < asteroids.length; i++) {
-          for (let j = i + 1; j < asteroids.length; j++) {
-            const A = asteroids[i];
-            const B = asteroids[j];
-
-            const polyA = asteroidWorldPoly(A);
-            const polyB = asteroidWorldPoly(B);
-
-            const mtv = satMTV(polyA, polyB);
-            if (!mtv) continue;
-
-            const nx = mtv.nx;
-            const ny = mtv.ny;
-
-            // positional correction
-            const push = (mtv.overlap + SEP) * 0.5;
-            A.x -= nx * push;
-            A.y -= ny * push;
-            B.x += nx * push;
-            B.y += ny * push;
-
-            // damp velocity into normal (prevents jitter)
-           // bounce + light friction (keeps energy instead of killing drift)
-            const rvx = B.driftX - A.driftX;
-            const rvy = B.driftY - A.driftY;
-
-            // normal component (closing speed)
-            const relN = rvx * nx + rvy * ny;
-            if (relN < 0) {
-              // restitution: 0 = sticky, 1 = perfectly elastic
-              const REST = 0.97;
-
-              // impulse along normal
-              const j = -(1 + REST) * relN * 0.5;
-
-              A.driftX -= nx * j;
-              A.driftY -= ny * j;
-              B.driftX += nx * j;
-              B.driftY += ny * j;
-
-              // tangential friction (small, to reduce endless sliding jitter)
-              const tx = -ny;
-              const ty = nx;
-              const relT = rvx * tx + rvy * ty;
-
-              const FRICTION = 0.01;
-              const jt = -relT * FRICTION * 0.5;
-
-              A.driftX -= tx * jt;
-              A.driftY -= ty * jt;
-              B.driftX += tx * jt;
-              B.driftY += ty * jt;
-            }
+  const setCamera = useCallback((next: Camera) => {
+    cameraRef.current = clampCamera(next, lastSizeRef.current, worldRef.current);
+    rendererRef.current?.setCamera(cameraRef.current);
+  }, []);
 
-          }
-        }
+  const cancelFlight = useCallback(() => {
+    flyRef.current?.();
+    flyRef.current = null;
+  }, []);
 
-        // IMPORTANT: clamp only once per iteration (not inside pair loop)
-        asteroids.forEach((a) => clampToBounds(a, width, height));
-      }
+  // Eases toward a target that's re-read every frame, so it can follow a drifting asteroid
+  const flyCamera = useCallback(
+    (getTarget: () => Camera, onArrive?: () => void) => {
+      cancelFlight();
+      const from = cameraRef.current;
+      const start = performance.now();
+      const duration = reducedMotion ? 0 : FLY_MS;
+
+      // On the camera layer, so the scene draws each step in the same frame
+      flyRef.current = ticker.add((now) => {
+        const p = duration ? Math.min(1, (now - start) / duration) : 1;
+        setCamera(lerpCamera(from, getTarget(), easeInOutCubic(p)));
+        if (p < 1) return;
+        cancelFlight();
+        onArrive?.();
+      }, LAYER.camera);
     },
-    [asteroidWorldPoly, clampToBounds]
+    [cancelFlight, reducedMotion, setCamera]
   );
 
+  const flyToAsteroid = useCallback(
+    (id: string, zoom: number, onArrive?: () => void) => {
+      flyCamera(() => {
+        const body = frameRef.current?.bodies.find((b) => b.id === id);
+        const cam = cameraRef.current;
+        return { x: body?.x ?? cam.x, y: body?.y ?? cam.y, zoom };
+      }, onArrive);
+    },
+    [flyCamera]
+  );
 
-  // ---------- Debug draw ----------
-
-    const drawDebugHitboxes = useCallback(
-    (ctx: CanvasRenderingContext2D, a: Asteroid) => {
-      const poly = asteroidWorldPoly(a);
-      if (poly.length < 2) return;
+  const homeCamera = useCallback(
+    (): Camera => ({ x: worldRef.current.width / 2, y: worldRef.current.height / 2, zoom: 1 }),
+    []
+  );
 
-      ctx.save();
-      ctx.strokeStyle = 'rgba(0,255,255,0.35)';
-      ctx.lineWidth = 1;
+  const zoomBy = (factor: number) => {
+    cancelFlight();
+    const { width, height } = lastSizeRef.current;
+    setCamera(zoomAt(cameraRef.current, lastSizeRef.current, worldRef.current, { x: width / 2, y: height / 2 }, factor));
+  };
 
-      ctx.beginPath();
-      ctx.moveTo(poly[0].x, poly[0].y);
-      for (let i = 1; i < poly.length; i++) ctx.lineTo(poly[i].x, poly[i].y);
-      ctx.closePath();
-      ctx.stroke();
+  // ---------- Hover preview ----------
 
-      ctx.restore();
-    },
-    [asteroidWorldPoly]
-  );
+  const cancelPreviewClose = useCallback(() => {
+    if (previewCloseRef.current !== null) window.clearTimeout(previewCloseRef.current);
+    previewCloseRef.current = null;
+  }, []);
 
+  const closePreview = useCallback(() => {
+    cancelPreviewClose();
+    cardHoveredRef.current = false;
+    setPreviewOpen(false);
+  }, [cancelPreviewClose]);
+
+  const schedulePreviewClose = useCallback(() => {
+    cancelPreviewClose();
+    previewCloseRef.current = window.setTimeout(() => {
+      previewCloseRef.current = null;
+      if (!cardHoveredRef.current) setPreviewOpen(false);
+    }, PREVIEW_CLOSE_MS);
+  }, [cancelPreviewClose]);
+
+  // Selecting flies to the asteroid first, then hands off to the dialog
+  const selectProject = (project: Project) => {
+    closePreview();
+    flyToAsteroid(project.id, Math.max(cameraRef.current.zoom, SELECT_ZOOM), () => onSelectProject(project));
+  };
 
   // ---------- Init asteroids ----------
 
   const initAsteroids = useCallback(() => {
     if (!containerRef.current) return;
     const { width, height } = containerRef.current.getBoundingClientRect();
-
-    const newAsteroids: Asteroid[] = (projectsData as Project[]).map((project) => {
-      const spawnY = Math.max(0.06, Math.min(0.45, project.asteroid.y * 0.75));
-      const size = project.asteroid.size;
+    const ww = width * WORLD_SCALE;
+    const wh = height * WORLD_SCALE;
+
+    // Pack around the middle, viewport-sized part of the world, where the camera starts;
+    // explicit x/y in projects.json are fractions of that same area
+    const view = { x: (ww - width) / 2, y: (wh - height) / 2, width, height };
+    const phase = seed ? createRng(`${seed}:layout`)() * Math.PI * 2 : 0;
+    const spots = packAsteroids(
+      projects.map((project) => ({
+        id: project.id,
+        r: styles.get(project.id)!.size / 2,
+        x: project.asteroid?.x !== undefined ? view.x + project.asteroid.x * width : undefined,
+        y: project.asteroid?.y !== undefined ? view.y + project.asteroid.y * height : undefined,
+      })),
+      view,
+      { width: ww, height: wh },
+      getLabelDims(),
+      phase
+    );
+
+    const newAsteroids: FieldAsteroid[] = projects.map((project) => {
+      const { size, color } = styles.get(project.id)!;
+      const spot = spots.get(project.id)!;
+
+      // Draw order matters: changing it changes every existing layout
+      const rng = createRng(seed ? `${seed}:${project.id}` : project.id);
+      const vertices = generateAsteroidVertices(size, rng);
+      const craters = generateCraters(rng);
 
       return {
-        project,
-        x: project.asteroid.x * width,
-        y: spawnY * height,
+        id: project.id,
+        color,
+        x: spot.x,
+        y: spot.y,
         size,
-        rotation: Math.random() * 360,
-        driftX: (Math.random() - 0.5) * 0.32,
-        driftY: (Math.random() - 0.5) * 0.38,
-        rotationSpeed: (Math.random() - 0.5) * 0.45,
-        vertices: generateAsteroidVertices(size),
+        rotation: rng() * 360,
+        driftX: (rng() - 0.5) * 0.32,
+        driftY: (rng() - 0.5) * 0.38,
+        rotationSpeed: (rng() - 0.5) * 0.45,
+        vertices,
+        craters,
         r: size / 2,
       };
     });
 
     // Pre-solve overlaps on init so we do not start interlocked
-    for (let k = 0; k < 60; k++) {
-      resolveOverlaps(newAsteroids, width, height, 2);
-      newAsteroids.forEach((a) => clampToBounds(a, width, height));
-    }
+    settle({ bodies: newAsteroids }, getBounds(ww, wh));
 
     asteroidsRef.current = newAsteroids;
     lastSizeRef.current = { width, height };
+    worldRef.current = { width: ww, height: wh };
+    setWorld(worldRef.current);
+    rendererRef.current?.setBodies(newAsteroids);
 
-    // Position labels immediately so there is no “pop-in”
-    requestAnimationFrame(() => {
-    requestAnimationFrame(() => {
-      positionLabels();
-    });
-  });
-
-
-  }, [generateAsteroidVertices, resolveOverlaps, clampToBounds, positionLabels]);
-
-  // ---------- Draw asteroid ----------
-
-  const drawAsteroid = useCallback(
-    (ctx: CanvasRenderingContext2D, asteroid: Asteroid, isHovered: boolean) => {
-      const { x, y, size, rotation, project, vertices } = asteroid;
-      const baseColor = getColor(project.asteroid.color);
-
-      ctx.save();
-      ctx.translate(x, y);
-      ctx.rotate((rotation * Math.PI) / 180);
-
-      // Path
-      ctx.beginPath();
-      vertices.forEach((v, i) => (i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y)));
-      ctx.closePath();
-
-      // Clip for inner details
-      ctx.save();
-      ctx.clip();
-
-      const gradient = ctx.createRadialGradient(-size * 0.18, -size * 0.2, 0, 0, 0, size * 0.7);
-      gradient.addColorStop(0, isHovered ? baseColor : 'hsl(220, 18%, 28%)');
-      gradient.addColorStop(
-        0.55,
-        isHovered
-          ? baseColor.replace(')', ', 0.65)').replace('hsl', 'hsla')
-          : 'hsl(220, 14%, 18%)'
-      );
-      gradient.addColorStop(1, 'hsl(220, 10%, 10%)');
-
-      ctx.fillStyle = gradient;
-      ctx.fillRect(-size, -size, size * 2, size * 2);
-
-      // Craters
-      ctx.fillStyle = 'rgba(0,0,0,0.35)';
-      const crater = (cx: number, cy: number, rr: number) => {
-        ctx.beginPath();
-        ctx.arc(cx, cy, rr, 0, Math.PI * 2);
-        ctx.fill();
-
-        ctx.fillStyle = 'rgba(255,255,255,0.05)';
-        ctx.beginPath();
-        ctx.arc(cx - rr * 0.25, cy - rr * 0.25, rr * 0.55, 0, Math.PI * 2);
-        ctx.fill();
-
-        ctx.fillStyle = 'rgba(0,0,0,0.35)';
-      };
+    cancelFlight();
+    setCamera(homeCamera());
 
-      crater(size * 0.14, -size * 0.08, size * 0.11);
-      crater(-size * 0.16, size * 0.1, size * 0.08);
-      crater(size * 0.02, size * 0.18, size * 0.06);
-
-      // Highlight
-      ctx.fillStyle = 'rgba(255,255,255,0.08)';
-      ctx.beginPath();
-      ctx.arc(-size * 0.18, -size * 0.18, size * 0.22, 0, Math.PI * 2);
-      ctx.fill();
-
-      ctx.restore(); // unclip
-
-      // Border + glow
-      ctx.beginPath();
-      vertices.forEach((v, i) => (i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y)));
-      ctx.closePath();
-
-      if (isHovered) {
-        ctx.shadowColor = baseColor;
-        ctx.shadowBlur = 18;
-        ctx.strokeStyle = baseColor;
-        ctx.lineWidth = 2;
-      } else {
-        ctx.shadowBlur = 0;
-        ctx.strokeStyle = 'hsl(200, 30%, 35%)';
-        ctx.lineWidth = 1;
-      }
-
-      ctx.stroke();
-      ctx.restore();
-    },
-    [getColor]
-  );
+    // Fixed per layout so focus doesn't jump around as asteroids drift
+    setTabOrder(spatialOrder(newAsteroids));
+  }, [seed, generateAsteroidVertices, generateCraters, getBounds, getLabelDims, cancelFlight, setCamera, homeCamera]);
 
   // ---------- Mount init ----------
 
@@ -552,50 +388,58 @@ const centroid = (poly: Pt[]) => {
     initAsteroids();
   }, [initAsteroids]);
 
-  // ---------- Animation + resize handling ----------
+  // ---------- Renderer + resize handling ----------
+
+  // Read through refs so the renderer (and its worker) is only rebuilt when touch or
+  // reduced motion flips, not on every layout or capability change
+  const initRef = useRef(initAsteroids);
+  initRef.current = initAsteroids;
+  const rendererKindRef = useRef(rendererKind);
+  const maxDprRef = useRef(maxDpr);
+  maxDprRef.current = maxDpr;
+  const resizeRef = useRef(() => {});
+  const viewRef = useRef<FieldView | null>(null); // replayed into a renderer rebuilt for new capabilities
 
   useEffect(() => {
-    const canvas = canvasRef.current;
     const container = containerRef.current;
-    if (!canvas || !container) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+    if (!container) return;
+
+    // Simulation and drawing run off the main thread when OffscreenCanvas is available
+    const renderer = createFieldRenderer(container, {
+      reducedMotion,
+      renderer: rendererKindRef.current,
+      touch,
+      onFrame: applyFrame,
+    });
+    rendererRef.current = renderer;
+    if (viewRef.current) renderer.setView(viewRef.current);
+    renderer.setDebug(debugStore.get().flags);
 
-    const resizeCanvasPreserve = () => {
-      const dpr = Math.min(window.devicePixelRatio || 1, 1.5);
+    const measure = (): FieldSize => {
       const { width, height } = container.getBoundingClientRect();
+      const world = { width: width * WORLD_SCALE, height: height * WORLD_SCALE };
+      const dpr = Math.min(window.devicePixelRatio || 1, maxDprRef.current);
+      return { width, height, dpr, label: getLabelDims(), world };
+    };
 
-      canvas.width = Math.floor(width * dpr);
-      canvas.height = Math.floor(height * dpr);
-      canvas.style.width = `${width}px`;
-      canvas.style.height = `${height}px`;
-
-      ctx.setTransform(1, 0, 0, 1, 0, 0);
-      ctx.scale(dpr, dpr);
-
-      // Scale positions only if width changed (ignore iOS bar height)
-      const prev = lastSizeRef.current;
-      if (prev.width > 0 && prev.height > 0 && asteroidsRef.current.length > 0) {
-        const sx = width / prev.width;
-        const sy = height / prev.height;
-
-        if (Math.abs(width - prev.width) >= 2) {
-          asteroidsRef.current.forEach((a) => {
-            a.x *= sx;
-            a.y *= sy;
-          });
-        }
-      }
-
-      lastSizeRef.current = { width, height };
+    const resizeCanvasPreserve = () => {
+      const size = measure();
+      renderer.resize(size);
+      lastSizeRef.current = { width: size.width, height: size.height };
+
+      // Keep the same part of the world on screen as it scales
+      const prevWorld = worldRef.current;
+      worldRef.current = size.world;
+      setWorld(size.world);
+      const cam = cameraRef.current;
+      const sx = prevWorld.width ? size.world.width / prevWorld.width : 1;
+      const sy = prevWorld.height ? size.world.height / prevWorld.height : 1;
+      setCamera(prevWorld.width ? { ...cam, x: cam.x * sx, y: cam.y * sy } : { x: size.world.width / 2, y: size.world.height / 2, zoom: 1 });
 
         // reset label readiness when size truly changes
         const prevStable = lastStableSizeRef.current;
-        if (Math.abs(width - prevStable.w) > 1 || Math.abs(height - prevStable.h) > 1) {
-          lastStableSizeRef.current = { w: width, h: height };
+        if (Math.abs(size.width - prevStable.w) > 1 || Math.abs(size.height - prevStable.h) > 1) {
+          lastStableSizeRef.current = { w: size.width, h: size.height };
           stableFramesRef.current = 0;
           labelsReadyRef.current = false;
         }
@@ -603,6 +447,8 @@ const centroid = (poly: Pt[]) => {
     };
 
     resizeCanvasPreserve();
+    renderer.setBodies(asteroidsRef.current);
+    resizeRef.current = resizeCanvasPreserve;
 
     const onViewportResize = () => {
       const { width } = container.getBoundingClientRect();
@@ -619,332 +465,438 @@ const centroid = (poly: Pt[]) => {
       const { width } = container.getBoundingClientRect();
       const prevW = lastSizeRef.current.width;
       if (prevW !== 0 && Math.abs(width - prevW) < 2) return;
-      initAsteroids();
       resizeCanvasPreserve();
+      initRef.current();
     });
     ro.observe(container);
 
-    // Timing
-    let frameCount = 0;
-    let lastT = performance.now();
-
-    const animate = (t: number) => {
-      const { width, height } = container.getBoundingClientRect();
-      ctx.clearRect(0, 0, width, height);
+    // React's onWheel is passive, so zoom needs a native listener to stop the page scrolling
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      cancelFlight();
+      const lines = e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? lastSizeRef.current.height : 1;
+      const factor = Math.exp(-e.deltaY * lines * 0.0015);
+      const rect = container.getBoundingClientRect();
+      const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      setCamera(zoomAt(cameraRef.current, lastSizeRef.current, worldRef.current, anchor, factor));
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
 
-      const dtMs = t - lastT;
-      lastT = t;
-      const dt = Math.min(2.0, Math.max(0.5, dtMs / 16.67)); // clamp dt multiplier
+    // touch-none keeps pinches on the field away from the page; Safari still starts its own
+    // page zoom from gesture events unless they're cancelled
+    const onGesture = (e: Event) => e.preventDefault();
+    container.addEventListener('gesturestart', onGesture);
+    container.addEventListener('gesturechange', onGesture);
 
-      if (!prefersReducedMotion) {
-        // Integrate once
-        asteroidsRef.current.forEach((a) => {
-          a.x += a.driftX * dt;
-          a.y += a.driftY * dt;
-          a.rotation += a.rotationSpeed * dt;
-        });
+    return () => {
+      container.removeEventListener('wheel', onWheel);
+      container.removeEventListener('gesturestart', onGesture);
+      container.removeEventListener('gesturechange', onGesture);
+      cancelFlight();
+      ro.disconnect();
+      if (vv) vv.removeEventListener('resize', onViewportResize);
+      else window.removeEventListener('resize', onViewportResize);
+      renderer.destroy();
+      rendererRef.current = null;
+      resizeRef.current = () => {};
+    };
+  }, [touch, reducedMotion, getLabelDims, applyFrame, setCamera, cancelFlight]);
 
-        // Resolve overlaps once per frame (small iterations)
-        resolveOverlaps(asteroidsRef.current, width, height, 2);
+  // A new DPR cap (quality tier change) only needs a resize, not a new renderer
+  const maxDprSeenRef = useRef(maxDpr);
+  useEffect(() => {
+    if (maxDpr === maxDprSeenRef.current) return;
+    maxDprSeenRef.current = maxDpr;
+    resizeRef.current();
+  }, [maxDpr]);
 
-        // Clamp once per frame
-        asteroidsRef.current.forEach((a) => clampToBounds(a, width, height));
-      }
+  // Hover, focus and filter only change what's drawn; the loop keeps running
+  useEffect(() => {
+    viewRef.current = {
+      hovered: hoveredAsteroid,
+      focused: focusedAsteroid,
+      matching: matchingIds ? [...matchingIds] : null,
+    };
+    rendererRef.current?.setView(viewRef.current);
+  }, [hoveredAsteroid, focusedAsteroid, matchingIds]);
 
-      // Update label DOM every frame (smooth)
-      positionLabels();
-
-      // After a couple stable frames, reveal labels (prevents iPad initial jump/pop)
-        if (!labelsReadyRef.current) {
-          stableFramesRef.current += 1;
-          if (stableFramesRef.current >= 2) {
-            labelsReadyRef.current = true;
-            for (const key of Object.keys(labelRefs.current)) {
-              const el = labelRefs.current[key];
-              if (el) el.style.opacity = '1';
-            }
-          }
-        }
+  // Debug overlay switches; a step request only counts once it's newer than the last one seen
+  const stepsSeenRef = useRef(debug.steps);
+  useEffect(() => {
+    rendererRef.current?.setDebug(debug.flags);
+  }, [debug.flags]);
 
+  useEffect(() => {
+    if (debug.steps === stepsSeenRef.current) return;
+    stepsSeenRef.current = debug.steps;
+    rendererRef.current?.stepOnce();
+  }, [debug.steps]);
 
+  // The preview follows hover, but never shows mid-drag
+  useEffect(() => {
+    if (isDragging) {
+      closePreview();
+    } else if (hoveredAsteroid) {
+      cancelPreviewClose();
+      previewIdRef.current = hoveredAsteroid;
+      setPreviewId(hoveredAsteroid);
+      setPreviewOpen(true);
+    } else {
+      schedulePreviewClose();
+    }
+  }, [hoveredAsteroid, isDragging, closePreview, cancelPreviewClose, schedulePreviewClose]);
 
-      // Draw
-      asteroidsRef.current.forEach((a) => {
-        drawAsteroid(ctx, a, hoveredAsteroid === a.project.id);
-        if (DEBUG_HITBOXES) drawDebugHitboxes(ctx, a);
-      });
+  useEffect(() => cancelPreviewClose, [cancelPreviewClose]);
 
-      // Update HTML label positions occasionally
-      
+  // ---------- Interaction ----------
 
-      animationRef.current = requestAnimationFrame(animate);
-    };
+  // Resolves to the hit project; hit testing runs wherever the simulation lives
+  const hitTest = useCallback(async (clientX: number, clientY: number) => {
+    const container = containerRef.current;
+    const renderer = rendererRef.current;
+    if (!container || !renderer) return null;
+    const rect = container.getBoundingClientRect();
+    const id = await renderer.hitTest(clientX - rect.left, clientY - rect.top);
+    return id ? projectById.get(id) ?? null : null;
+  }, []);
 
-    animationRef.current = requestAnimationFrame(animate);
+  // Active pointers by id. One pointer drags: an asteroid under it gets picked up and
+  // thrown, empty space pans. Two pinch. A press that never moves past DRAG_THRESHOLD is a tap.
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef({
+    mode: 'none' as 'none' | 'pan' | 'grab' | 'pinch',
+    startX: 0,
+    startY: 0,
+    pinchDist: 0,
+    hit: undefined as Project | null | undefined, // undefined until the hit test answers
+    pressHit: Promise.resolve(null) as Promise<Project | null>,
+    samples: [] as { t: number; x: number; y: number }[],
+  });
 
-    return () => {
-      ro.disconnect();
-      if (vv) vv.removeEventListener('resize', onViewportResize);
-      else window.removeEventListener('resize', onViewportResize);
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, [hoveredAsteroid, drawAsteroid, drawDebugHitboxes, initAsteroids, resolveOverlaps, clampToBounds, positionLabels]);
+  const localPoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
 
-  // ---------- Interaction ----------
+  const pinchState = () => {
+    const [a, b] = [...pointersRef.current.values()];
+    return { dist: Math.hypot(a.x - b.x, a.y - b.y), mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } };
+  };
 
-  const hitTest = useCallback((clientX: number, clientY: number) => {
-    if (!containerRef.current) return null;
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = clientX - rect.left;
-    const y = clientY - rect.top;
-
-    for (const a of asteroidsRef.current) {
-      const dx = x - a.x;
-      const dy = y - a.y;
-      const dist = Math.hypot(dx, dy);
-      if (dist < a.r + 12) return a;
-    }
-    return null;
-  }, []);
+  // Throw velocity from the last THROW_WINDOW_MS of samples, in world px per 60fps frame
+  const throwVelocity = (now: number) => {
+    const recent = gestureRef.current.samples.filter((p) => now - p.t <= THROW_WINDOW_MS);
+    if (recent.length < 2) return { vx: 0, vy: 0 };
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const frames = Math.max(1, (last.t - first.t) / 16.67);
+    const zoom = cameraRef.current.zoom;
+    return { vx: (last.x - first.x) / frames / zoom, vy: (last.y - first.y) / frames / zoom };
+  };
 
   const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
     (e.currentTarget as HTMLDivElement).setPointerCapture(e.pointerId);
-    const hit = hitTest(e.clientX, e.clientY);
-    if (hit) setSelectedProject(hit.project);
+    cancelFlight();
+    const point = localPoint(e.clientX, e.clientY);
+    pointersRef.current.set(e.pointerId, point);
+
+    const gesture = gestureRef.current;
+    if (pointersRef.current.size === 1) {
+      gesture.mode = 'none';
+      gesture.startX = point.x;
+      gesture.startY = point.y;
+      gesture.hit = undefined;
+      gesture.samples = [{ t: e.timeStamp, ...point }];
+      const press = hitTest(e.clientX, e.clientY);
+      gesture.pressHit = press;
+      press.then((hit) => {
+        if (gesture.pressHit === press) gesture.hit = hit;
+      });
+    } else if (pointersRef.current.size === 2) {
+      // A second finger always means pinch; drop anything being held where it is
+      if (gesture.mode === 'grab') rendererRef.current?.release(0, 0);
+      gesture.mode = 'pinch';
+      gesture.pinchDist = pinchState().dist;
+    }
   };
 
+  // Worker replies are async; drop any that land after a newer move or a leave
+  const hoverSeqRef = useRef(0);
+
   const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
-    const hit = hitTest(e.clientX, e.clientY);
-    setHoveredAsteroid(hit ? hit.project.id : null);
+    const pointers = pointersRef.current;
+    const prev = pointers.get(e.pointerId);
+
+    if (!prev) {
+      const seq = ++hoverSeqRef.current;
+      hitTest(e.clientX, e.clientY).then((hit) => {
+        if (seq === hoverSeqRef.current) setHoveredAsteroid(hit ? hit.id : null);
+      });
+      return;
+    }
+
+    const next = localPoint(e.clientX, e.clientY);
+    pointers.set(e.pointerId, next);
+    const gesture = gestureRef.current;
+    const viewport = lastSizeRef.current;
+
+    if (pointers.size >= 2) {
+      const { dist, mid } = pinchState();
+      if (gesture.pinchDist > 0) setCamera(zoomAt(cameraRef.current, viewport, worldRef.current, mid, dist / gesture.pinchDist));
+      gesture.pinchDist = dist;
+      return;
+    }
+
+    gesture.samples.push({ t: e.timeStamp, ...next });
+    if (gesture.samples.length > 32) gesture.samples.shift();
+
+    if (gesture.mode === 'none') {
+      if (Math.hypot(next.x - gesture.startX, next.y - gesture.startY) < DRAG_THRESHOLD) return;
+      if (gesture.hit === undefined) return; // wait to learn whether this press is on an asteroid
+
+      // Reduced motion keeps the field still, so there's nothing to throw; drag pans instead
+      gesture.mode = gesture.hit && !reducedMotion ? 'grab' : 'pan';
+      if (gesture.mode === 'grab') rendererRef.current?.grab(gesture.hit!.id, gesture.startX, gesture.startY);
+      setIsDragging(true);
+      hoverSeqRef.current += 1;
+      setHoveredAsteroid(gesture.mode === 'grab' ? gesture.hit!.id : null);
+    }
+
+    if (gesture.mode === 'grab') rendererRef.current?.drag(next.x, next.y);
+    else if (gesture.mode === 'pan') setCamera(panBy(cameraRef.current, viewport, worldRef.current, next.x - prev.x, next.y - prev.y));
+  };
+
+  const endPointer = (e: React.PointerEvent<HTMLDivElement>, cancelled: boolean) => {
+    const pointers = pointersRef.current;
+    if (!pointers.delete(e.pointerId)) return;
+
+    // Lifting one finger of a pinch leaves the other idle until it's lifted too
+    if (pointers.size > 0) return;
+
+    const gesture = gestureRef.current;
+
+    setIsDragging(false);
+    const mode = gesture.mode;
+    gesture.mode = 'none';
+
+    if (mode === 'grab') {
+      const { vx, vy } = cancelled ? { vx: 0, vy: 0 } : throwVelocity(e.timeStamp);
+      rendererRef.current?.release(vx, vy);
+      setHoveredAsteroid(null);
+      return;
+    }
+
+    if (cancelled || mode !== 'none') return;
+
+    gesture.pressHit.then((hit) => {
+      if (hit) selectProject(hit);
+    });
+  };
+
+  const handlePointerLeave = () => {
+    hoverSeqRef.current += 1;
+    setHoveredAsteroid(null);
+    closePreview();
+  };
+
+  // Minimap clicks fly the camera there; it reports world coordinates through its viewBox
+  const handleMinimapClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * worldRef.current.width;
+    const y = ((e.clientY - rect.top) / rect.height) * worldRef.current.height;
+    const zoom = cameraRef.current.zoom;
+    flyCamera(() => ({ x, y, zoom }));
+  };
+
+  // Only matching asteroids are reachable, mirroring what the pointer can click
+  const focusable = tabOrder
+    .map((id) => projectById.get(id))
+    .filter((p): p is Project => !!p && !isDimmed(p.id));
+
+  const handleFocusAsteroid = (project: Project, el: HTMLElement) => {
+    // Focus returned after a mouse-opened dialog shouldn't light up a ring
+    const visible = el.matches(':focus-visible');
+    setFocusedAsteroid(visible ? project.id : null);
+
+    // Bring an off-screen asteroid into view as keyboard focus reaches it
+    const body = frameRef.current?.bodies.find((b) => b.id === project.id);
+    if (visible && body) {
+      const p = worldToScreen(cameraRef.current, lastSizeRef.current, body);
+      const { width, height } = lastSizeRef.current;
+      if (p.x < body.r || p.y < body.r || p.x > width - body.r || p.y > height - body.r) {
+        flyToAsteroid(project.id, cameraRef.current.zoom);
+      }
+    }
+
+    const position = focusable.findIndex((p) => p.id === project.id) + 1;
+    setAnnouncement(`Asteroid ${position} of ${focusable.length}: ${project.name}`);
   };
 
   // ---------- Render ----------
 
   return (
     <div className="relative w-full">
-      {/* Mobile / Tablet: Grid */}
-      <div className="block md:hidden">
-        <div className="mb-3 text-center">
-          <p className="text-xs text-muted-foreground/70 font-mono">
-            Grid view on mobile. For the full asteroid experience, view on a laptop.
-          </p>
-        </div>
+      {/* Labels (DOM positioned via refs for smooth motion) */}
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-          {(projectsData as Project[]).map((p) => (
-            <button
-              key={p.id}
-              type="button"
-              onClick={() => setSelectedProject(p)}
-              className="text-left hologram-card hover:border-primary/50 transition-colors"
-            >
-              <p className="font-orbitron text-sm text-foreground">{p.name}</p>
-              <p className="text-xs text-muted-foreground mt-1">{p.tagline}</p>
-
-              <div className="flex flex-wrap gap-2 mt-3">
-                {p.tech.slice(0, 6).map((tt) => (
-                  <span
-                    key={tt}
-                    className="px-2 py-1 rounded text-[10px] bg-secondary/10 text-secondary-foreground border border-secondary/20"
-                  >
-                    {tt}
-                  </span>
-                ))}
-              </div>
-            </button>
-          ))}
-        </div>
-      </div>
+      <div
+        className={`relative w-full flex flex-col ${
+          // Touch leaves some page above and below the field so a finger can still scroll past it
+          touch ? 'h-[65svh] min-h-[360px]' : 'h-[60vh] lg:h-[55vh] min-h-[520px]'
+        }`}
+      >
+        <div
+          ref={containerRef}
+          className={`relative w-full flex-1 overflow-hidden touch-none overscroll-contain select-none ${
+            isDragging ? 'cursor-grabbing' : hoveredAsteroid ? 'cursor-pointer' : 'cursor-grab'
+          }`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={(e) => endPointer(e, false)}
+          onPointerCancel={(e) => endPointer(e, true)}
+          onPointerLeave={handlePointerLeave}
+        >
+          {/* The renderer mounts its own <canvas> here (it may be handed to a worker) */}
+
+          {/* Screen reader / keyboard mirror of the field: Tab walks it in spatial order,
+              Enter/Space open the project, and the canvas draws the focus ring */}
+          <ul className="sr-only" aria-label="Projects in the asteroid field">
+            {focusable.map((project) => (
+              <li key={project.id}>
+                <button
+                  type="button"
+                  data-project-trigger={project.id}
+                  onClick={() => selectProject(project)}
+                  onFocus={(e) => handleFocusAsteroid(project, e.currentTarget)}
+                  onBlur={() => setFocusedAsteroid((id) => (id === project.id ? null : id))}
+                >
+                  {project.name}: {project.tagline}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="sr-only" aria-live="polite">
+            {announcement}
+          </p>
 
-      {/* Labels (DOM positioned via refs for smooth motion) */}
+          {/* Labels */}
+         {projects.map((project) => (
 
-      <div className="hidden md:block">
-        <div className="relative w-full h-[60vh] lg:h-[55vh] min-h-[520px] flex flex-col">
           <div
-            ref={containerRef}
-            className="relative w-full flex-1 cursor-pointer"
-            onPointerDown={handlePointerDown}
-            onPointerMove={handlePointerMove}
-            onPointerLeave={() => setHoveredAsteroid(null)}
+            key={project.id}
+            ref={(el) => {
+              labelRefs.current[project.id] = el;
+            }}
+            aria-hidden="true"
+            className={`
+              absolute left-0 top-0 pointer-events-none
+              will-change-transform transform-gpu
+              ${hoveredAsteroid === project.id || focusedAsteroid === project.id ? 'scale-110' : 'scale-100'}
+            `}
+            
+            style={{
+                  width: touch ? LABEL_W_COMPACT : LABEL_W_DESKTOP,
+                  opacity: 0, // start hidden, we reveal after first stable positioning
+                  transition: 'opacity 160ms ease',
+                  transform: 'translate3d(0px, 0px, 0) translateX(-50%)',
+                  transformOrigin: 'top center', // labels scale with the camera from their anchor
+                }}
           >
-            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
-
-            {/* Labels */}
-           {(projectsData as Project[]).map((project) => (
-
             <div
-              key={project.id}
-              ref={(el) => {
-                labelRefs.current[project.id] = el;
-              }}
-              className={`
-                absolute left-0 top-0 pointer-events-none
-                will-change-transform transform-gpu
-                ${hoveredAsteroid === project.id ? 'scale-110' : 'scale-100'}
-              `}
-              
-              style={{
-                    width: LABEL_W_DESKTOP,
-                    opacity: 0, // start hidden, we reveal after first stable positioning
-                    transition: 'opacity 160ms ease',
-                    transform: 'translate3d(0px, 0px, 0) translateX(-50%)',
-                  }}
+              className={`text-center transition-opacity duration-300 ${
+                isDimmed(project.id) ? 'opacity-25' : 'opacity-100'
+              }`}
             >
-              <div className="text-center">
-                <p className="font-orbitron text-xs text-foreground whitespace-nowrap overflow-hidden text-ellipsis">
-                  {project.name}
-                </p>
+              <p className="font-orbitron text-xs text-foreground whitespace-nowrap overflow-hidden text-ellipsis">
+                {project.name}
+              </p>
+              {!touch && (
                 <p className="text-[10px] text-muted-foreground mt-0.5 line-clamp-2 leading-snug">
                   {project.tagline}
                 </p>
-              </div>
+              )}
             </div>
-          ))}
-
           </div>
+        ))}
+
+          <AsteroidPreviewCard
+            ref={previewAnchorRef}
+            project={previewId ? projectById.get(previewId) ?? null : null}
+            open={previewOpen}
+            onPointerEnter={() => {
+              cardHoveredRef.current = true;
+              cancelPreviewClose();
+            }}
+            onPointerLeave={() => {
+              cardHoveredRef.current = false;
+              schedulePreviewClose();
+            }}
+          />
+
+          {/* Camera controls + minimap; presses here never reach the pan/click handlers */}
+          <div
+            className="absolute bottom-3 right-3 flex items-end gap-2 cursor-default"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <div className="flex flex-col gap-1">
+              {[
+                { label: 'Zoom in', Icon: ZoomIn, onClick: () => zoomBy(ZOOM_STEP) },
+                { label: 'Zoom out', Icon: ZoomOut, onClick: () => zoomBy(1 / ZOOM_STEP) },
+                { label: 'Reset view', Icon: Maximize2, onClick: () => flyCamera(homeCamera) },
+              ].map(({ label, Icon, onClick }) => (
+                <button
+                  key={label}
+                  type="button"
+                  aria-label={label}
+                  title={label}
+                  onClick={onClick}
+                  className={`${
+                    touch ? 'p-2.5' : 'p-1.5'
+                  } rounded border border-primary/20 bg-background/70 backdrop-blur text-muted-foreground hover:text-primary hover:border-primary/50 transition-colors`}
+                >
+                  <Icon className={touch ? 'w-5 h-5' : 'w-3.5 h-3.5'} />
+                </button>
+              ))}
+            </div>
 
-          <div className="py-4 flex justify-center pointer-events-none">
+            {world.width > 0 && (
+              <svg
+                viewBox={`0 0 ${world.width} ${world.height}`}
+                width={touch ? MINIMAP_W_TOUCH : MINIMAP_W}
+                height={((touch ? MINIMAP_W_TOUCH : MINIMAP_W) * world.height) / world.width}
+                onClick={handleMinimapClick}
+                aria-hidden="true"
+                className="rounded border border-primary/20 bg-background/70 backdrop-blur cursor-pointer"
+              >
+                {projects.map((project) => (
+                  <circle
+                    key={project.id}
+                    ref={(el) => {
+                      minimapDotRefs.current[project.id] = el;
+                    }}
+                    r={world.width / 80}
+                    className={isDimmed(project.id) ? 'fill-muted-foreground/30' : 'fill-primary/70'}
+                  />
+                ))}
+                <rect
+                  ref={minimapViewRef}
+                  fill="none"
+                  vectorEffect="non-scaling-stroke"
+                  className="stroke-primary"
+                  strokeWidth={1}
+                />
+              </svg>
+            )}
           </div>
         </div>
-      </div>
 
-      {/* Modal (shared by BOTH views) */}
-      <AnimatePresence>
-        {selectedProject && (
-          <div className="fixed inset-0 z-[200]">
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              className="absolute inset-0 bg-space-dark/95 backdrop-blur-md"
-              aria-hidden="true"
-            />
-
-            <div
-              className="relative z-10 w-full h-full flex items-start justify-center px-4 pb-6"
-              style={{ paddingTop: 96 }}
-              onClick={() => setSelectedProject(null)}
-              role="presentation"
-            >
-              <motion.div
-                initial={{ opacity: 0, scale: 0.96, y: 18 }}
-                animate={{ opacity: 1, scale: 1, y: 0 }}
-                exit={{ opacity: 0, scale: 0.98, y: 10 }}
-                transition={{ type: 'spring', damping: 26, stiffness: 320 }}
-                className="relative w-full max-w-2xl rounded-lg overflow-hidden"
-                style={{
-                  height: `min(480px, calc(100vh - ${96 + 24}px))`,
-                }}
-                onClick={(e) => e.stopPropagation()}
-                role="dialog"
-                aria-modal="true"
-              >
-                <div className="hologram-card relative h-full p-0">
-                  <button
-                    onClick={() => setSelectedProject(null)}
-                    className="absolute top-3 right-3 p-2 rounded-md text-muted-foreground
-                               hover:text-foreground hover:bg-muted/50 transition-colors z-10"
-                    aria-label="Close"
-                  >
-                    <X size={18} />
-                  </button>
-
-                  <div className="h-full overflow-y-auto px-6 py-4">
-                    <div className="mb-4 pr-10">
-                      <p className="text-xs text-hologram font-mono uppercase tracking-widest mb-2">
-                        // PROJECT DATA
-                      </p>
-                      <h2 className="font-orbitron text-xl md:text-2xl text-foreground mb-2">
-                        {selectedProject.name}
-                      </h2>
-                      <p className="text-muted-foreground">{selectedProject.tagline}</p>
-                    </div>
-
-                    <p className="text-foreground/80 mb-4 leading-relaxed text-sm md:text-base">
-                      {selectedProject.description}
-                    </p>
-
-                    <div className="mb-4">
-                      <p className="text-xs text-muted-foreground uppercase tracking-wider mb-3">
-                        Technology Stack
-                      </p>
-                      <div className="flex flex-wrap gap-2">
-                        {selectedProject.tech.map((tech) => (
-                          <span
-                            key={tech}
-                            className="px-3 py-1 rounded-full text-xs font-medium
-                                       bg-primary/10 text-primary border border-primary/20"
-                          >
-                            {tech}
-                          </span>
-                        ))}
-                      </div>
-                    </div>
-
-                    <div className="mb-5">
-                      <p className="text-xs text-muted-foreground uppercase tracking-wider mb-3">
-                        Mission Impact
-                      </p>
-                      <ul className="space-y-2">
-                        {selectedProject.impact.map((item, i) => (
-                          <li key={i} className="flex items-start gap-2 text-sm text-foreground/80">
-                            <ChevronRight size={16} className="text-primary mt-0.5 flex-shrink-0" />
-                            {item}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-
-                    {(() => {
-                      const demoOk = hasLink(selectedProject.links?.demo);
-                      const codeOk = hasLink(selectedProject.links?.github);
-                      if (!demoOk && !codeOk) return null;
-
-                      const single = demoOk !== codeOk;
-
-                      return (
-                        <div className="pt-4 border-t border-hologram/20">
-                          <div className={`${single ? 'flex' : 'flex flex-wrap'} gap-4`}>
-                            {demoOk && (
-                              <a
-                                href={selectedProject.links.demo as string}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className={`${single ? 'w-full justify-center' : ''} flex items-center gap-2 px-5 py-2.5 rounded-md
-                                            bg-primary text-primary-foreground font-medium text-sm
-                                            hover:bg-primary/90 transition-colors`}
-                              >
-                                <ExternalLink size={16} />
-                                View Demo
-                              </a>
-                            )}
-
-                            {codeOk && (
-                              <a
-                                href={selectedProject.links.github as string}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className={`${single ? 'w-full justify-center' : ''} flex items-center gap-2 px-5 py-2.5 rounded-md
-                                            border border-muted-foreground/30 text-foreground text-sm
-                                            hover:border-primary hover:text-primary transition-colors`}
-                              >
-                                <Github size={16} />
-                                Source Code
-                              </a>
-                            )}
-                          </div>
-                        </div>
-                      );
-                    })()}
-
-                    <div className="h-2" />
-                  </div>
-                </div>
-              </motion.div>
-            </div>
-          </div>
-        )}
-      </AnimatePresence>
+        <div className="py-4 flex justify-center pointer-events-none" aria-hidden="true">
+          <p className="text-[10px] font-mono text-muted-foreground/60">
+            {touch
+              ? 'Drag to pan or fling asteroids · Pinch to zoom · Tap to open'
+              : 'Drag to pan or throw asteroids · Scroll or pinch to zoom · Tab to cycle asteroids · Enter to open'}
+          </p>
+        </div>
+      </div>
     </div>
   );
 };
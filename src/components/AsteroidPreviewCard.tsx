@@ -0,0 +1,97 @@
+import { forwardRef } from 'react';
+import { ExternalLink, Github } from 'lucide-react';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import SkillChip from '@/components/SkillChip';
+import { hasLink, type Project } from '@/data/content';
+
+interface AsteroidPreviewCardProps {
+  project: Project | null; // kept while closing so the exit animation has content
+  open: boolean;
+  onPointerEnter: () => void;
+  onPointerLeave: () => void;
+}
+
+const TECH_LIMIT = 4;
+
+// The forwarded ref is the anchor: an empty box the field moves over the asteroid every
+// frame. Opening is controlled by the field, not by hovering the anchor.
+const AsteroidPreviewCard = forwardRef<HTMLDivElement, AsteroidPreviewCardProps>(
+  ({ project, open, onPointerEnter, onPointerLeave }, ref) => {
+    const demoOk = hasLink(project?.links.demo);
+    const codeOk = hasLink(project?.links.github);
+
+    return (
+      <HoverCard open={open && !!project}>
+        <HoverCardTrigger asChild>
+          <div ref={ref} aria-hidden="true" className="absolute left-0 top-0 pointer-events-none" />
+        </HoverCardTrigger>
+
+        {project && (
+          <HoverCardContent
+            side="right"
+            align="start"
+            sideOffset={12}
+            collisionPadding={12}
+            updatePositionStrategy="always" // the anchor moves every frame
+            onPointerEnter={onPointerEnter}
+            onPointerLeave={onPointerLeave}
+            // Presses here are for the links, not the field's pan/grab handlers
+            onPointerDown={(e) => e.stopPropagation()}
+            className="w-72 cursor-default bg-background/90 backdrop-blur border-primary/30"
+          >
+            <p className="font-orbitron text-sm text-foreground">{project.name}</p>
+            <p className="text-xs text-muted-foreground mt-1">{project.tagline}</p>
+
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {project.tech.slice(0, TECH_LIMIT).map((tech) => (
+                <SkillChip
+                  key={tech}
+                  name={tech}
+                  className="px-2 py-0.5 rounded text-[10px] bg-secondary/10 text-secondary-foreground border border-secondary/20"
+                />
+              ))}
+              {project.tech.length > TECH_LIMIT && (
+                <span className="px-2 py-0.5 rounded text-[10px] font-mono text-muted-foreground">
+                  +{project.tech.length - TECH_LIMIT}
+                </span>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground mt-3 leading-relaxed">{project.impact[0]}</p>
+
+            {(demoOk || codeOk) && (
+              <div className="flex gap-2 mt-3 pt-3 border-t border-border/50">
+                {demoOk && (
+                  <a
+                    href={project.links.demo!}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+                  >
+                    <ExternalLink size={12} />
+                    Demo
+                  </a>
+                )}
+                {codeOk && (
+                  <a
+                    href={project.links.github!}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium border border-muted-foreground/30 text-foreground hover:border-primary hover:text-primary transition-colors"
+                  >
+                    <Github size={12} />
+                    Code
+                  </a>
+                )}
+              </div>
+            )}
+          </HoverCardContent>
+        )}
+      </HoverCard>
+    );
+  }
+);
+
+AsteroidPreviewCard.displayName = 'AsteroidPreviewCard';
+
+export default AsteroidPreviewCard;
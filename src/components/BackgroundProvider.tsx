@@ -0,0 +1,44 @@
+import { useCallback, useMemo, useState, type ReactNode } from 'react';
+import { BackgroundContext, DEFAULT_BACKGROUND, type BackgroundSettings } from '@/hooks/use-background';
+
+interface BackgroundProviderProps {
+  children: ReactNode;
+}
+
+interface Entry {
+  id: string;
+  overrides: Partial<BackgroundSettings>;
+}
+
+// Unset fields fall through to the entry below
+const merge = (base: BackgroundSettings, { starCount, speed, hyperspeed }: Partial<BackgroundSettings>) => ({
+  starCount: starCount ?? base.starCount,
+  speed: speed ?? base.speed,
+  hyperspeed: hyperspeed ?? base.hyperspeed,
+});
+
+// Stacks page overrides over the defaults, in the order the pages first set them
+const BackgroundProvider = ({ children }: BackgroundProviderProps) => {
+  const [stack, setStack] = useState<Entry[]>([]);
+
+  const set = useCallback((id: string, overrides: Partial<BackgroundSettings>) => {
+    setStack((prev) =>
+      prev.some((e) => e.id === id)
+        ? prev.map((e) => (e.id === id ? { id, overrides } : e))
+        : [...prev, { id, overrides }]
+    );
+  }, []);
+
+  const clear = useCallback((id: string) => {
+    setStack((prev) => prev.filter((e) => e.id !== id));
+  }, []);
+
+  const value = useMemo(
+    () => ({ settings: stack.reduce((settings, e) => merge(settings, e.overrides), DEFAULT_BACKGROUND), set, clear }),
+    [stack, set, clear]
+  );
+
+  return <BackgroundContext.Provider value={value}>{children}</BackgroundContext.Provider>;
+};
+
+export default BackgroundProvider;
@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { matchPath, useLocation, useNavigate } from 'react-router-dom';
+import * as DialogPrimitive from '@radix-ui/react-dialog';
+import {
+  Briefcase,
+  Compass,
+  Copy,
+  FileText,
+  FolderGit2,
+  Orbit,
+  Tag,
+  type LucideIcon,
+} from 'lucide-react';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { DialogOverlay, DialogPortal } from '@/components/ui/dialog';
+import { toast } from '@/components/ui/sonner';
+import { defaultProjectsView } from '@/hooks/use-project-filters';
+import { experiences, projects } from '@/data/content';
+import { skills } from '@/data/skills';
+import { contactEmail, navItems, resumeUrl } from '@/data/site';
+
+interface PaletteItem {
+  id: string; // stable across sessions, used for "recent"
+  group: 'Pages' | 'Projects' | 'Experience' | 'Skills' | 'Actions';
+  label: string;
+  hint?: string;
+  keywords?: string[];
+  icon: LucideIcon;
+  run: () => void;
+}
+
+const RECENT_KEY = 'command-palette:recent';
+const MAX_RECENT = 5;
+
+const loadRecent = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RECENT_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((id) => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const GROUP_ORDER: PaletteItem['group'][] = ['Pages', 'Projects', 'Experience', 'Skills', 'Actions'];
+
+const CommandPalette = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [recent, setRecent] = useState<string[]>(loadRecent);
+
+  // Ctrl/Cmd+K toggles from anywhere, including while typing in inputs
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen((o) => !o);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) setSearch('');
+  }, [open]);
+
+  const toggleCinematic = useCallback(() => {
+    // Flip ?view on the projects page; from anywhere else, open the cinematic view.
+    // No ?view means the same default the page uses.
+    const onProjects =
+      !!matchPath('/projects', location.pathname) || !!matchPath('/projects/:id', location.pathname);
+    const params = new URLSearchParams(onProjects ? location.search : '');
+    const defaultView = defaultProjectsView();
+    const current = params.get('view') ?? defaultView;
+    const next = onProjects && current !== 'grid' ? 'grid' : 'asteroid';
+    if (next === defaultView) params.delete('view');
+    else params.set('view', next);
+
+    const search = params.toString();
+    navigate(
+      { pathname: onProjects ? location.pathname : '/projects', search: search ? `?${search}` : '' },
+      { replace: onProjects }
+    );
+  }, [location.pathname, location.search, navigate]);
+
+  const items = useMemo<PaletteItem[]>(
+    () => [
+      ...navItems.map((item) => ({
+        id: `page:${item.path}`,
+        group: 'Pages' as const,
+        label: item.label,
+        hint: item.path,
+        icon: Compass,
+        run: () => navigate(item.path),
+      })),
+      ...projects.map((p) => ({
+        id: `project:${p.id}`,
+        group: 'Projects' as const,
+        label: p.name,
+        hint: p.tagline,
+        keywords: p.tech,
+        icon: FolderGit2,
+        run: () => navigate(`/projects/${p.id}`),
+      })),
+      ...experiences.map((exp) => ({
+        id: `role:${exp.id}`,
+        group: 'Experience' as const,
+        label: exp.role,
+        hint: exp.company,
+        keywords: [exp.company, ...exp.tech],
+        icon: Briefcase,
+        run: () => navigate(`/experience?role=${exp.id}`),
+      })),
+      ...skills.map((skill) => ({
+        id: `skill:${skill.id}`,
+        group: 'Skills' as const,
+        label: skill.name,
+        keywords: skill.aliases,
+        icon: skill.icon ?? Tag,
+        run: () => navigate(`/tech/${skill.id}`),
+      })),
+      {
+        id: 'action:resume',
+        group: 'Actions',
+        label: 'Download resume',
+        keywords: ['cv', 'pdf'],
+        icon: FileText,
+        run: () => window.open(resumeUrl, '_blank', 'noopener,noreferrer'),
+      },
+      {
+        id: 'action:copy-email',
+        group: 'Actions',
+        label: 'Copy email',
+        hint: contactEmail,
+        keywords: ['contact', 'mail'],
+        icon: Copy,
+        run: () => {
+          const failed = () => toast.error(`Couldn't copy. Email: ${contactEmail}`);
+          // No Clipboard API outside secure contexts (plain HTTP)
+          if (!navigator.clipboard) {
+            failed();
+            return;
+          }
+          navigator.clipboard
+            .writeText(contactEmail)
+            .then(() => toast.success('Email copied to clipboard'))
+            .catch(failed);
+        },
+      },
+      {
+        id: 'action:toggle-cinematic',
+        group: 'Actions',
+        label: 'Toggle cinematic view',
+        keywords: ['grid', 'asteroid', 'view'],
+        icon: Orbit,
+        run: toggleCinematic,
+      },
+    ],
+    [navigate, toggleCinematic]
+  );
+
+  const itemsById = useMemo(() => new Map(items.map((item) => [item.id, item])), [items]);
+  const recentItems = recent.map((id) => itemsById.get(id)).filter((item): item is PaletteItem => !!item);
+
+  const runItem = (item: PaletteItem) => {
+    setOpen(false);
+    setRecent((prev) => {
+      const next = [item.id, ...prev.filter((id) => id !== item.id)].slice(0, MAX_RECENT);
+      try {
+        localStorage.setItem(RECENT_KEY, JSON.stringify(next));
+      } catch {
+        // storage unavailable (private mode); recents just won't persist
+      }
+      return next;
+    });
+    item.run();
+  };
+
+  const renderItem = (item: PaletteItem, value = item.id) => {
+    const Icon = item.icon;
+    return (
+      <CommandItem
+        key={value}
+        value={value}
+        keywords={[item.label, ...(item.hint ? [item.hint] : []), ...(item.keywords ?? [])]}
+        onSelect={() => runItem(item)}
+        className="gap-3 py-2.5 data-[selected=true]:bg-primary/15 data-[selected=true]:text-primary"
+      >
+        <Icon size={16} className="flex-shrink-0 opacity-70" />
+        <span className="truncate">{item.label}</span>
+        {item.hint && <span className="ml-auto truncate text-xs text-muted-foreground max-w-[45%]">{item.hint}</span>}
+      </CommandItem>
+    );
+  };
+
+  return (
+    <>
+      {/* Discoverable trigger (desktop only; the shortcut works everywhere) */}
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 right-4 z-[300] hidden md:flex items-center gap-2 px-3 py-1.5 rounded-md
+                   hud-panel text-xs font-mono text-muted-foreground hover:text-foreground transition-colors"
+        aria-label="Open command palette"
+      >
+        <span>Jump to…</span>
+        <kbd className="px-1.5 py-0.5 rounded border border-border/60 text-[10px]">{isMac ? '⌘K' : 'Ctrl K'}</kbd>
+      </button>
+
+      <DialogPrimitive.Root open={open} onOpenChange={setOpen}>
+        <DialogPortal>
+          {/* Above the fixed nav (z-[350]) and project dialog (z-[200]) */}
+          <DialogOverlay className="z-[500] bg-space-dark/80 backdrop-blur-sm" />
+          <DialogPrimitive.Content
+            className="fixed left-1/2 top-[15vh] z-[501] w-[calc(100%-2rem)] max-w-xl -translate-x-1/2
+                       overflow-hidden rounded-lg border border-primary/30 shadow-neon"
+          >
+            <DialogPrimitive.Title className="sr-only">Command palette</DialogPrimitive.Title>
+            <DialogPrimitive.Description className="sr-only">
+              Search pages, projects, roles and skills, or run an action.
+            </DialogPrimitive.Description>
+
+            <Command
+              loop
+              className="bg-space-dark/95 [&_[cmdk-group-heading]]:font-mono [&_[cmdk-group-heading]]:uppercase
+                         [&_[cmdk-group-heading]]:tracking-wider [&_[cmdk-input]]:h-12"
+            >
+              <CommandInput value={search} onValueChange={setSearch} placeholder="Type a page, project, role or skill..." />
+              <CommandList className="max-h-[min(420px,60vh)]">
+                <CommandEmpty>No results found.</CommandEmpty>
+
+                {!search && recentItems.length > 0 && (
+                  <CommandGroup heading="Recent">
+                    {recentItems.map((item) => renderItem(item, `recent:${item.id}`))}
+                  </CommandGroup>
+                )}
+
+                {GROUP_ORDER.map((group) => (
+                  <CommandGroup key={group} heading={group}>
+                    {items.filter((item) => item.group === group).map((item) => renderItem(item))}
+                  </CommandGroup>
+                ))}
+              </CommandList>
+
+              <div className="flex border-t border-border/40 px-3 py-2 font-mono">
+                <CommandShortcut className="ml-auto tracking-normal">↑↓ navigate · ↵ open · esc close</CommandShortcut>
+              </div>
+            </Command>
+          </DialogPrimitive.Content>
+        </DialogPortal>
+      </DialogPrimitive.Root>
+    </>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from 'react';
+import { Switch } from '@/components/ui/switch';
+import { useDebug } from '@/hooks/use-debug';
+import {
+  debugStore,
+  frameSamples,
+  isDebugChord,
+  type DebugFlags,
+  type FrameSample,
+  type SceneName,
+} from '@/lib/debug';
+import { LAYER, ticker } from '@/lib/ticker';
+
+const SCENES: { name: SceneName; label: string }[] = [
+  { name: 'starfield', label: 'Starfield' },
+  { name: 'asteroids', label: 'Asteroids' },
+];
+
+const TOGGLES: { flag: keyof DebugFlags; label: string }[] = [
+  { flag: 'hitboxes', label: 'Hitboxes' },
+  { flag: 'labelRects', label: 'Label rects' },
+  { flag: 'paused', label: 'Pause physics' },
+];
+
+const GRAPH_W = 180;
+const GRAPH_H = 36;
+const GRAPH_MAX_MS = 33.3; // top of the graph; 2 frames at 60fps
+const TEXT_REFRESH_MS = 250;
+const LAYER_COLORS = ['hsl(185, 100%, 50%)', 'hsl(25, 100%, 55%)', 'hsl(270, 60%, 60%)'];
+
+interface SceneSummary {
+  fps: number;
+  layers: [string, number][]; // average ms over the window
+  latest: FrameSample | null;
+}
+
+const summarize = (list: readonly FrameSample[]): SceneSummary => {
+  const now = performance.now();
+  const latest = list[list.length - 1] ?? null;
+  if (!latest || now - latest.at > 1000) return { fps: 0, layers: [], latest: null }; // not on this page
+  const recent = list.filter((s) => now - s.at <= 1000);
+  const span = recent.length > 1 ? recent[recent.length - 1].at - recent[0].at : 0;
+
+  const totals = new Map<string, number>();
+  for (const s of recent) {
+    for (const [name, ms] of Object.entries(s.stats.layers)) totals.set(name, (totals.get(name) ?? 0) + ms);
+  }
+
+  return {
+    fps: span > 0 ? ((recent.length - 1) * 1000) / span : 0,
+    layers: [...totals].map(([name, ms]) => [name, ms / Math.max(1, recent.length)]),
+    latest,
+  };
+};
+
+// Stacked bars: work per layer. Line: interval between frames. Dashed: the 60fps budget.
+const drawGraph = (canvas: HTMLCanvasElement, list: readonly FrameSample[]) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const dpr = window.devicePixelRatio || 1;
+  if (canvas.width !== GRAPH_W * dpr) {
+    canvas.width = GRAPH_W * dpr;
+    canvas.height = GRAPH_H * dpr;
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, GRAPH_W, GRAPH_H);
+
+  const y = (ms: number) => GRAPH_H - (Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS) * GRAPH_H;
+  const barW = GRAPH_W / 120; // one bar per kept sample
+  const start = GRAPH_W - list.length * barW;
+
+  list.forEach((s, i) => {
+    let top = GRAPH_H;
+    Object.values(s.stats.layers).forEach((ms, layer) => {
+      const h = Math.min(top, GRAPH_H - y(ms));
+      ctx.fillStyle = LAYER_COLORS[layer % LAYER_COLORS.length];
+      ctx.fillRect(start + i * barW, top - h, Math.max(1, barW - 0.5), h);
+      top -= h;
+    });
+  });
+
+  ctx.strokeStyle = 'rgba(255,255,255,0.7)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let i = 1; i < list.length; i++) {
+    const px = start + i * barW;
+    const py = y(list[i].at - list[i - 1].at);
+    if (i === 1) ctx.moveTo(px, py);
+    else ctx.lineTo(px, py);
+  }
+  ctx.stroke();
+
+  ctx.strokeStyle = 'rgba(255,255,255,0.25)';
+  ctx.setLineDash([3, 3]);
+  ctx.beginPath();
+  ctx.moveTo(0, y(1000 / 60));
+  ctx.lineTo(GRAPH_W, y(1000 / 60));
+  ctx.stroke();
+  ctx.setLineDash([]);
+};
+
+const DebugOverlay = () => {
+  const debug = useDebug();
+  const graphRefs = useRef<Partial<Record<SceneName, HTMLCanvasElement | null>>>({});
+  const [summaries, setSummaries] = useState<Partial<Record<SceneName, SceneSummary>>>({});
+
+  // The chord works everywhere, including while typing
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isDebugChord(e)) {
+        e.preventDefault();
+        debugStore.toggle();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Graphs redraw every frame; the numbers refresh a few times a second so they're readable
+  useEffect(() => {
+    if (!debug.enabled) return;
+    let lastText = 0;
+
+    return ticker.add((t) => {
+      for (const { name } of SCENES) {
+        const canvas = graphRefs.current[name];
+        if (canvas) drawGraph(canvas, frameSamples(name));
+      }
+      if (t - lastText >= TEXT_REFRESH_MS) {
+        lastText = t;
+        setSummaries(Object.fromEntries(SCENES.map(({ name }) => [name, summarize(frameSamples(name))])));
+      }
+    }, LAYER.overlay);
+  }, [debug.enabled]);
+
+  if (!debug.enabled) return null;
+
+  return (
+    <div
+      role="region"
+      aria-label="Debug overlay"
+      className="fixed bottom-4 left-4 z-[400] w-[212px] rounded-md border border-primary/30 bg-background/90 backdrop-blur p-3 font-mono text-[10px] text-muted-foreground shadow-lg"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-primary">DEBUG</span>
+        <button type="button" onClick={debugStore.toggle} className="hover:text-primary" title="Shift+Alt+D">
+          close
+        </button>
+      </div>
+
+      {SCENES.map(({ name, label }) => {
+        const summary = summaries[name];
+        const stats = summary?.latest?.stats;
+        return (
+          <div key={name} className="mb-3">
+            <div className="flex justify-between text-foreground">
+              <span>{label}</span>
+              <span>
+                {stats ? `${stats.renderer ? `${stats.renderer} · ` : ''}${summary.fps.toFixed(0)} fps` : 'idle'}
+              </span>
+            </div>
+            <canvas
+              ref={(el) => {
+                graphRefs.current[name] = el;
+              }}
+              style={{ width: GRAPH_W, height: GRAPH_H }}
+              className="my-1 block bg-muted/20"
+            />
+            {stats && (
+              <ul className="space-y-0.5">
+                {summary.layers.map(([layer, ms], i) => (
+                  <li key={layer} className="flex justify-between">
+                    <span style={{ color: LAYER_COLORS[i % LAYER_COLORS.length] }}>{layer}</span>
+                    <span>{ms.toFixed(2)} ms</span>
+                  </li>
+                ))}
+                {stats.pairs && (
+                  <li className="flex justify-between">
+                    <span>pairs</span>
+                    <span>
+                      {stats.pairs.candidates} cand · {stats.pairs.contacts} hit
+                    </span>
+                  </li>
+                )}
+                {stats.quality && (
+                  <li className="flex justify-between">
+                    <span>quality</span>
+                    <span>{stats.quality}</span>
+                  </li>
+                )}
+                <li className="flex justify-between">
+                  <span>dpr</span>
+                  <span>{stats.dpr.toFixed(2)}</span>
+                </li>
+                <li className="flex justify-between">
+                  <span>backing</span>
+                  <span>
+                    {stats.backing.width}×{stats.backing.height}
+                  </span>
+                </li>
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="space-y-1.5 border-t border-border/50 pt-2">
+        {TOGGLES.map(({ flag, label }) => (
+          <label key={flag} className="flex items-center justify-between cursor-pointer">
+            <span>{label}</span>
+            <Switch
+              checked={debug.flags[flag]}
+              onCheckedChange={(value) => debugStore.setFlag(flag, value)}
+              className="h-4 w-7 [&>span]:h-3 [&>span]:w-3 [&>span]:data-[state=checked]:translate-x-3"
+            />
+          </label>
+        ))}
+        <button
+          type="button"
+          onClick={debugStore.step}
+          disabled={!debug.flags.paused}
+          className="w-full mt-1 py-1 rounded border border-primary/30 hover:border-primary hover:text-primary disabled:opacity-40 disabled:pointer-events-none"
+        >
+          Step one frame
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DebugOverlay;
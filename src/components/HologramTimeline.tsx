@@ -1,21 +1,16 @@
 import { motion } from 'framer-motion';
 import { Briefcase, MapPin, Calendar } from 'lucide-react';
-import experienceData from '@/data/experience.json';
-
-interface Experience {
-  id: string;
-  role: string;
-  company: string;
-  period: string;
-  location: string;
-  description: string;
-  achievements: string[];
-  tech: string[];
-}
+import { experiences, type Experience } from '@/data/content';
+import SkillChip from '@/components/SkillChip';
+import { formatDuration, formatPeriod, periodMonths, periodStatus, type PeriodStatus } from '@/data/period';
+
+const statusStyles: Record<PeriodStatus, { dot: string; label: string }> = {
+  current: { dot: 'bg-hologram', label: 'Current' },
+  complete: { dot: 'bg-purple-500', label: 'Complete' },
+  upcoming: { dot: 'bg-accent', label: 'Upcoming' },
+};
 
 const HologramTimeline = () => {
-  const experiences = experienceData as Experience[];
-
   return (
     <div className="relative max-w-4xl mx-auto py-8">
       {/* Center rail (desktop) + left rail (mobile) */}
@@ -34,7 +29,9 @@ const HologramTimeline = () => {
           return (
             <div
               key={exp.id}
+              id={`role-${exp.id}`}
               className="
+                scroll-mt-28
                 relative
                 grid
                 grid-cols-[1fr]
@@ -52,7 +49,7 @@ const HologramTimeline = () => {
                     transition={{ duration: 0.5, delay: index * 0.1 }}
                     className="pr-8"
                   >
-                    <Card exp={exp} index={index} />
+                    <Card exp={exp} />
                   </motion.div>
                 )}
               </div>
@@ -81,7 +78,7 @@ const HologramTimeline = () => {
                     transition={{ duration: 0.5, delay: index * 0.1 }}
                     className="pl-8"
                   >
-                    <Card exp={exp} index={index} />
+                    <Card exp={exp} />
                   </motion.div>
                 )}
               </div>
@@ -94,7 +91,7 @@ const HologramTimeline = () => {
                   viewport={{ once: true, margin: '-100px' }}
                   transition={{ duration: 0.5, delay: index * 0.05 }}
                 >
-                  <Card exp={exp} index={index} />
+                  <Card exp={exp} />
                 </motion.div>
               </div>
             </div>
@@ -105,15 +102,15 @@ const HologramTimeline = () => {
   );
 };
 
-const Card = ({ exp, index }: { exp: Experience; index: number }) => {
+const Card = ({ exp }: { exp: Experience }) => {
+  const status = statusStyles[periodStatus(exp)];
+
   return (
     <div className="relative z-10 hologram-card w-full group hover:scale-[1.02] transition-transform duration-300">
       {/* Status indicator */}
       <div className="absolute top-4 right-4 flex items-center gap-2">
-        <div className={`w-2 h-2 rounded-full animate-pulse ${index === 0 ? 'bg-hologram' : 'bg-purple-500'}`}/>
-        <span className="text-[10px] font-mono text-hologram/80 uppercase">
-          {index === 0 ? 'Current' : 'Complete'}
-        </span>
+        <div className={`w-2 h-2 rounded-full animate-pulse ${status.dot}`} />
+        <span className="text-[10px] font-mono text-hologram/80 uppercase">{status.label}</span>
       </div>
 
       {/* Header */}
@@ -130,12 +127,15 @@ const Card = ({ exp, index }: { exp: Experience; index: number }) => {
       <div className="flex flex-wrap gap-4 mb-4 text-sm text-muted-foreground">
         <div className="flex items-center gap-1.5">
           <Calendar size={14} className="text-hologram/60" />
-          {exp.period}
-        </div>
-        <div className="flex items-center gap-1.5">
-          <MapPin size={14} className="text-hologram/60" />
-          {exp.location}
+          {formatPeriod(exp)}
+          <span className="text-muted-foreground/60">· {formatDuration(periodMonths(exp))}</span>
         </div>
+        {exp.location && (
+          <div className="flex items-center gap-1.5">
+            <MapPin size={14} className="text-hologram/60" />
+            {exp.location}
+          </div>
+        )}
       </div>
 
       {/* Description */}
@@ -164,13 +164,12 @@ const Card = ({ exp, index }: { exp: Experience; index: number }) => {
       {/* Tech stack */}
       <div className="flex flex-wrap gap-2 pt-4 border-t border-hologram/10">
         {exp.tech.map((tech) => (
-          <span
+          <SkillChip
             key={tech}
+            name={tech}
             className="px-2 py-0.5 rounded text-[10px] font-mono uppercase
                        bg-hologram/5 text-hologram/80 border border-hologram/20"
-          >
-            {tech}
-          </span>
+          />
         ))}
       </div>
 
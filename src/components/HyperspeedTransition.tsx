@@ -1,6 +1,9 @@
 import { useEffect, useRef, useState } from 'react';
 import { useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
+import { qualityStore } from '@/lib/quality';
+import { createStreakBatch } from '@/lib/stars';
+import { LAYER, ticker } from '@/lib/ticker';
 
 interface HyperspeedTransitionProps {
   isActive: boolean;
@@ -9,7 +12,6 @@ interface HyperspeedTransitionProps {
 
 const HyperspeedTransition = ({ isActive, onComplete }: HyperspeedTransitionProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
   const startTimeRef = useRef<number>(0);
   const duration = 800; // ms
 
@@ -22,7 +24,9 @@ const HyperspeedTransition = ({ isActive, onComplete }: HyperspeedTransitionProp
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const dpr = Math.min(window.devicePixelRatio || 1, 1.5);
+    // Read once per jump; it lasts under a second
+    const quality = qualityStore.get();
+    const dpr = Math.min(window.devicePixelRatio || 1, 1.5, quality.maxDpr);
     canvas.width = window.innerWidth * dpr;
     canvas.height = window.innerHeight * dpr;
     ctx.scale(dpr, dpr);
@@ -33,13 +37,16 @@ const HyperspeedTransition = ({ isActive, onComplete }: HyperspeedTransitionProp
     const centerY = height / 2;
 
     // Create stars for hyperspeed
-    const stars = Array.from({ length: 300 }, () => ({
+    const stars = Array.from({ length: Math.round(300 * quality.starRatio) }, () => ({
       x: (Math.random() - 0.5) * width * 2,
       y: (Math.random() - 0.5) * height * 2,
       z: Math.random() * 1500 + 500,
       size: Math.random() * 2 + 1,
     }));
 
+    // All streaks for a frame are collected, then drawn in a few strokes
+    const batch = createStreakBatch();
+
     startTimeRef.current = performance.now();
 
     const animate = (currentTime: number) => {
@@ -88,31 +95,16 @@ const HyperspeedTransition = ({ isActive, onComplete }: HyperspeedTransitionProp
           return;
         }
 
-        // Draw streak
-        const gradient = ctx.createLinearGradient(prevScreenX, prevScreenY, screenX, screenY);
+        // Streak plus a bright point at the end
         const alpha = Math.min(0.3 + (1 - star.z / 1500) * 0.7, 1);
-        gradient.addColorStop(0, 'transparent');
-        gradient.addColorStop(0.5, `rgba(100, 200, 255, ${alpha * 0.5})`);
-        gradient.addColorStop(1, `rgba(200, 230, 255, ${alpha})`);
-
-        ctx.beginPath();
-        ctx.moveTo(prevScreenX, prevScreenY);
-        ctx.lineTo(screenX, screenY);
-        ctx.strokeStyle = gradient;
-        ctx.lineWidth = star.size * (0.5 + progress);
-        ctx.lineCap = 'round';
-        ctx.stroke();
-
-        // Bright point at the end
-        ctx.beginPath();
-        ctx.arc(screenX, screenY, star.size * (0.5 + progress * 0.5), 0, Math.PI * 2);
-        ctx.fillStyle = `rgba(255, 255, 255, ${alpha})`;
-        ctx.fill();
+        batch.streak(prevScreenX, prevScreenY, screenX, screenY, star.size * (0.5 + progress), alpha);
+        batch.point(screenX, screenY, star.size * (0.5 + progress * 0.5), alpha);
       });
 
-      if (progress < 1) {
-        animationRef.current = requestAnimationFrame(animate);
-      } else {
+      batch.flush(ctx);
+
+      if (progress >= 1) {
+        removeLayer();
         // Flash effect at the end
         ctx.fillStyle = 'rgba(100, 200, 255, 0.3)';
         ctx.fillRect(0, 0, width, height);
@@ -123,13 +115,9 @@ const HyperspeedTransition = ({ isActive, onComplete }: HyperspeedTransitionProp
       }
     };
 
-    animationRef.current = requestAnimationFrame(animate);
+    const removeLayer = ticker.add(animate, LAYER.transition);
 
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    };
+    return removeLayer;
   }, [isActive, onComplete]);
 
   return (
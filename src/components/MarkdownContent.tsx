@@ -0,0 +1,106 @@
+import Markdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSlug from 'rehype-slug';
+import { cn } from '@/lib/utils';
+
+// Site-relative assets ("/case-studies/foo.png") need the deploy base prepended
+const resolveSrc = (src?: string) =>
+  src && src.startsWith('/') ? `${import.meta.env.BASE_URL}${src.slice(1)}` : src;
+
+const components: Components = {
+  h1: ({ node, ...props }) => (
+    <h1 className="font-orbitron text-2xl md:text-3xl text-foreground mt-10 mb-4 scroll-mt-28" {...props} />
+  ),
+  h2: ({ node, ...props }) => (
+    <h2
+      className="font-orbitron text-xl md:text-2xl text-foreground mt-10 mb-4 pb-2
+                 border-b border-hologram/20 scroll-mt-28"
+      {...props}
+    />
+  ),
+  h3: ({ node, ...props }) => (
+    <h3 className="font-orbitron text-lg text-primary mt-8 mb-3 scroll-mt-28" {...props} />
+  ),
+  p: ({ node, ...props }) => <p className="text-foreground/80 leading-relaxed mb-4" {...props} />,
+  a: ({ node, href, ...props }) => {
+    const external = href?.startsWith('http');
+    return (
+      <a
+        href={href}
+        className="text-primary underline-offset-4 hover:underline"
+        {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+        {...props}
+      />
+    );
+  },
+  ul: ({ node, ...props }) => (
+    <ul className="list-disc pl-6 mb-4 space-y-1.5 text-foreground/80 marker:text-primary" {...props} />
+  ),
+  ol: ({ node, ...props }) => (
+    <ol className="list-decimal pl-6 mb-4 space-y-1.5 text-foreground/80 marker:text-primary" {...props} />
+  ),
+  blockquote: ({ node, ...props }) => (
+    <blockquote
+      className="border-l-2 border-hologram/50 pl-4 my-6 text-muted-foreground italic"
+      {...props}
+    />
+  ),
+  img: ({ node, src, alt, ...props }) => (
+    <img
+      src={resolveSrc(src)}
+      alt={alt ?? ''}
+      loading="lazy"
+      className="my-6 w-full rounded-lg border border-hologram/20"
+      {...props}
+    />
+  ),
+  pre: ({ node, ...props }) => (
+    <pre
+      className="my-6 overflow-x-auto rounded-lg border border-primary/20 bg-space-dark/80 p-4
+                 text-sm leading-relaxed"
+      {...props}
+    />
+  ),
+  code: ({ node, className, ...props }) => {
+    // Fenced blocks span several source lines (and may carry a language-* class)
+    const isBlock =
+      /language-/.test(className ?? '') || node?.position?.start.line !== node?.position?.end.line;
+    return (
+      <code
+        className={cn(
+          'font-mono',
+          isBlock ? 'text-foreground/90' : 'px-1.5 py-0.5 rounded bg-primary/10 text-primary text-[0.9em]',
+          className
+        )}
+        {...props}
+      />
+    );
+  },
+  table: ({ node, ...props }) => (
+    <div className="my-6 overflow-x-auto">
+      <table className="w-full text-sm border-collapse" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => (
+    <th className="text-left font-medium text-foreground border-b border-hologram/30 px-3 py-2" {...props} />
+  ),
+  td: ({ node, ...props }) => (
+    <td className="text-foreground/80 border-b border-border/40 px-3 py-2" {...props} />
+  ),
+  hr: ({ node, ...props }) => <hr className="my-10 border-hologram/20" {...props} />,
+};
+
+interface MarkdownContentProps {
+  children: string;
+  className?: string;
+}
+
+const MarkdownContent = ({ children, className }: MarkdownContentProps) => (
+  <div className={className}>
+    <Markdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSlug]} components={components}>
+      {children}
+    </Markdown>
+  </div>
+);
+
+export default MarkdownContent;
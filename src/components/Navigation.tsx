@@ -3,12 +3,12 @@ import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Menu, X, Rocket, FileText } from 'lucide-react';
 import HyperspeedTransition from './HyperspeedTransition';
+import { navItems, resumeUrl } from '@/data/site';
+import { deviceStore } from '@/lib/device';
 
-const navItems = [
-  { path: '/', label: 'Home', icon: '◈' },
-  { path: '/projects', label: 'Projects', icon: '◉' },
-  { path: '/experience', label: 'Experience', icon: '◎' },
-];
+// "/projects/:id" still counts as the Projects section
+const isPathActive = (pathname: string, path: string) =>
+  path === '/' ? pathname === '/' : pathname === path || pathname.startsWith(`${path}/`);
 
 const Navigation = () => {
   const location = useLocation();
@@ -21,11 +21,10 @@ const Navigation = () => {
   const handleNavClick = useCallback(
     (e: React.MouseEvent, path: string) => {
       // Only trigger hyperspeed for navigation TO /projects from other pages
-      if (path === '/projects' && location.pathname !== '/projects') {
+      if (path === '/projects' && !isPathActive(location.pathname, '/projects')) {
         e.preventDefault();
 
-        const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-        if (prefersReducedMotion) {
+        if (deviceStore.get().reducedMotion) {
           navigate(path);
           return;
         }
@@ -72,7 +71,7 @@ const Navigation = () => {
             <div className="hud-panel px-6 py-2">
               <ul className="flex items-center gap-8">
                 {navItems.map((item) => {
-                  const isActive = location.pathname === item.path;
+                  const isActive = isPathActive(location.pathname, item.path);
                   return (
                     <li key={item.path}>
                       <Link
@@ -107,7 +106,7 @@ const Navigation = () => {
 
                 <li>
                   <a
-                    href={`${import.meta.env.BASE_URL}resume.pdf`}
+                    href={resumeUrl}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="flex items-center gap-2 px-4 py-2 rounded-md border border-primary/30 
@@ -165,7 +164,7 @@ const Navigation = () => {
 
               <ul className="space-y-6">
                 {navItems.map((item, index) => {
-                  const isActive = location.pathname === item.path;
+                  const isActive = isPathActive(location.pathname, item.path);
                   return (
                     <motion.li
                       key={item.path}
@@ -203,7 +202,7 @@ const Navigation = () => {
                   transition={{ delay: 0.3 }}
                 >
                   <a
-                    href={`${import.meta.env.BASE_URL}resume.pdf`}
+                    href={resumeUrl}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="flex items-center gap-4 font-orbitron text-lg tracking-wider
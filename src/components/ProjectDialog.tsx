@@ -0,0 +1,269 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import * as DialogPrimitive from '@radix-ui/react-dialog';
+import { BookOpen, ChevronLeft, ChevronRight, ExternalLink, Github, SearchX, X } from 'lucide-react';
+import { DialogDescription, DialogOverlay, DialogPortal, DialogTitle } from '@/components/ui/dialog';
+import SkillChip from '@/components/SkillChip';
+import { hasLink, type Project } from '@/data/content';
+import { hasCaseStudy } from '@/data/caseStudies';
+
+// Approx fixed nav height to avoid the dialog being hidden under it
+const NAV_OFFSET_PX = 96;
+
+interface ProjectDialogProps {
+  projectId: string | null; // null = closed
+  project: Project | null; // null while open = unknown id
+  siblings: Project[]; // previous/next order, usually the current filtered list
+  onClose: () => void;
+  onNavigate: (project: Project) => void;
+}
+
+// Views mark whatever opens a project with data-project-trigger="<id>" so focus can
+// return to it on close, even after stepping to a different project with previous/next.
+const findTrigger = (id: string) =>
+  Array.from(document.querySelectorAll<HTMLElement>(`[data-project-trigger="${CSS.escape(id)}"]`)).find(
+    (el) => el.getClientRects().length > 0
+  );
+
+const ProjectDialog = ({ projectId, project, siblings, onClose, onNavigate }: ProjectDialogProps) => {
+  const open = projectId !== null;
+
+  // Keep rendering the last project while the close animation plays
+  const [shown, setShown] = useState({ id: projectId, project });
+  if (open && (shown.id !== projectId || shown.project !== project)) {
+    setShown({ id: projectId, project });
+  }
+
+  // Layout effects run before Radix moves focus into the dialog
+  const openerRef = useRef<HTMLElement | null>(null);
+  useLayoutEffect(() => {
+    if (open) openerRef.current = document.activeElement as HTMLElement | null;
+  }, [open]);
+
+  const index = shown.project ? siblings.findIndex((p) => p.id === shown.project.id) : -1;
+  const prev = index > 0 ? siblings[index - 1] : null;
+  const next = index >= 0 && index < siblings.length - 1 ? siblings[index + 1] : null;
+
+  // Scroll the body back to the top when stepping between projects
+  const bodyRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    bodyRef.current?.scrollTo({ top: 0 });
+  }, [shown.id]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft' && prev) {
+      e.preventDefault();
+      onNavigate(prev);
+    } else if (e.key === 'ArrowRight' && next) {
+      e.preventDefault();
+      onNavigate(next);
+    }
+  };
+
+  const handleCloseAutoFocus = (e: Event) => {
+    // No Radix trigger here, so return focus ourselves
+    e.preventDefault();
+    const target = (shown.id && findTrigger(shown.id)) || openerRef.current;
+    if (target?.isConnected) target.focus();
+  };
+
+  const current = shown.project;
+
+  return (
+    <DialogPrimitive.Root open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogPortal>
+        <DialogOverlay className="z-[200] bg-space-dark/95 backdrop-blur-md" />
+        <DialogPrimitive.Content
+          onKeyDown={handleKeyDown}
+          onCloseAutoFocus={handleCloseAutoFocus}
+          className="fixed left-1/2 z-[201] w-[calc(100%-2rem)] max-w-2xl -translate-x-1/2 rounded-lg overflow-hidden
+                     focus:outline-none duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out
+                     data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0
+                     data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95"
+          style={{
+            top: NAV_OFFSET_PX,
+            height: `min(480px, calc(100vh - ${NAV_OFFSET_PX + 24}px))`,
+          }}
+        >
+          <div className="hologram-card relative h-full p-0 flex flex-col">
+            <DialogPrimitive.Close
+              className="absolute top-3 right-3 p-2 rounded-md text-muted-foreground
+                         hover:text-foreground hover:bg-muted/50 transition-colors z-10"
+              aria-label="Close"
+            >
+              <X size={18} />
+            </DialogPrimitive.Close>
+
+            <div ref={bodyRef} className="flex-1 overflow-y-auto px-6 py-4">
+              {current ? (
+                <>
+                  {/* Header */}
+                  <div className="mb-4 pr-10">
+                    <p className="text-xs text-hologram font-mono uppercase tracking-widest mb-2">
+                      // PROJECT DATA
+                    </p>
+                    <DialogTitle className="font-orbitron text-xl md:text-2xl font-normal tracking-normal leading-tight text-foreground mb-2">
+                      {current.name}
+                    </DialogTitle>
+                    <DialogDescription className="text-muted-foreground text-base">{current.tagline}</DialogDescription>
+                    {hasCaseStudy(current.id) && (
+                      <Link
+                        to={`/projects/${current.id}/case-study`}
+                        className="inline-flex items-center gap-2 mt-3 text-sm text-hologram
+                                   hover:text-primary transition-colors"
+                      >
+                        <BookOpen size={14} />
+                        Read the full case study
+                        <ChevronRight size={14} />
+                      </Link>
+                    )}
+                  </div>
+
+                  {/* Description */}
+                  <p className="text-foreground/80 mb-4 leading-relaxed text-sm md:text-base">
+                    {current.description}
+                  </p>
+
+                  {/* Tech stack */}
+                  <div className="mb-4">
+                    <p className="text-xs text-muted-foreground uppercase tracking-wider mb-3">
+                      Technology Stack
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {current.tech.map((tech) => (
+                        <SkillChip
+                          key={tech}
+                          name={tech}
+                          className="px-3 py-1 rounded-full text-xs font-medium
+                                     bg-primary/10 text-primary border border-primary/20"
+                        />
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Impact */}
+                  <div className="mb-5">
+                    <p className="text-xs text-muted-foreground uppercase tracking-wider mb-3">
+                      Mission Impact
+                    </p>
+                    <ul className="space-y-2">
+                      {current.impact.map((item, i) => (
+                        <li key={i} className="flex items-start gap-2 text-sm text-foreground/80">
+                          <ChevronRight size={16} className="text-primary mt-0.5 flex-shrink-0" />
+                          {item}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  {/* Links */}
+                  {(() => {
+                    const demoOk = hasLink(current.links?.demo);
+                    const codeOk = hasLink(current.links?.github);
+
+                    if (!demoOk && !codeOk) return null;
+
+                    const single = demoOk !== codeOk;
+
+                    return (
+                      <div className="pt-4 border-t border-hologram/20">
+                        <div className={`${single ? 'flex' : 'flex flex-wrap'} gap-4`}>
+                          {demoOk && (
+                            <a
+                              href={current.links.demo}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={`${single ? 'w-full justify-center' : ''} flex items-center gap-2 px-5 py-2.5 rounded-md
+                                          bg-primary text-primary-foreground font-medium text-sm
+                                          hover:bg-primary/90 transition-colors`}
+                            >
+                              <ExternalLink size={16} />
+                              View Demo
+                            </a>
+                          )}
+
+                          {codeOk && (
+                            <a
+                              href={current.links.github}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={`${single ? 'w-full justify-center' : ''} flex items-center gap-2 px-5 py-2.5 rounded-md
+                                          border border-muted-foreground/30 text-foreground text-sm
+                                          hover:border-primary hover:text-primary transition-colors`}
+                            >
+                              <Github size={16} />
+                              Source Code
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })()}
+                </>
+              ) : (
+                <div className="h-full flex flex-col items-center justify-center text-center px-4">
+                  <SearchX size={40} className="text-accent mb-4" />
+                  <p className="text-xs text-hologram font-mono uppercase tracking-widest mb-2">
+                    // SIGNAL LOST
+                  </p>
+                  <DialogTitle className="font-orbitron text-xl md:text-2xl font-normal tracking-normal text-foreground mb-2">
+                    Project not found
+                  </DialogTitle>
+                  <DialogDescription className="text-muted-foreground text-sm mb-6">
+                    No project with id <span className="font-mono text-foreground">"{shown.id}"</span>{' '}
+                    exists in this sector.
+                  </DialogDescription>
+                  <DialogPrimitive.Close
+                    className="px-5 py-2.5 rounded-md bg-primary text-primary-foreground font-medium text-sm
+                               hover:bg-primary/90 transition-colors"
+                  >
+                    Back to all projects
+                  </DialogPrimitive.Close>
+                </div>
+              )}
+
+              <div className="h-2" />
+            </div>
+
+            {/* Previous / next (also ← / → while the dialog has focus) */}
+            {current && index >= 0 && siblings.length > 1 && (
+              <div className="flex items-center gap-2 px-4 py-2 border-t border-hologram/20 text-xs font-mono">
+                <button
+                  type="button"
+                  onClick={() => prev && onNavigate(prev)}
+                  disabled={!prev}
+                  className="flex items-center gap-1 min-w-0 px-2 py-1.5 rounded-md text-muted-foreground
+                             hover:text-foreground hover:bg-muted/50 transition-colors disabled:opacity-30
+                             disabled:pointer-events-none"
+                  aria-label={prev ? `Previous project: ${prev.name}` : 'No previous project'}
+                >
+                  <ChevronLeft size={14} className="flex-shrink-0" />
+                  <span className="truncate">{prev?.name ?? 'Previous'}</span>
+                </button>
+
+                <span className="mx-auto text-muted-foreground/70" aria-hidden="true">
+                  {index + 1} / {siblings.length}
+                </span>
+
+                <button
+                  type="button"
+                  onClick={() => next && onNavigate(next)}
+                  disabled={!next}
+                  className="flex items-center gap-1 min-w-0 px-2 py-1.5 rounded-md text-muted-foreground
+                             hover:text-foreground hover:bg-muted/50 transition-colors disabled:opacity-30
+                             disabled:pointer-events-none"
+                  aria-label={next ? `Next project: ${next.name}` : 'No next project'}
+                >
+                  <span className="truncate">{next?.name ?? 'Next'}</span>
+                  <ChevronRight size={14} className="flex-shrink-0" />
+                </button>
+              </div>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPortal>
+    </DialogPrimitive.Root>
+  );
+};
+
+export default ProjectDialog;
@@ -0,0 +1,100 @@
+import { Search, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { projectSortLabels, projectTechOptions, type ProjectSort } from '@/hooks/use-project-filters';
+
+interface ProjectFilterBarProps {
+  query: string;
+  tech: string[];
+  sort: ProjectSort;
+  resultCount: number;
+  totalCount: number;
+  isFiltering: boolean;
+  onQueryChange: (value: string) => void;
+  onToggleTech: (id: string) => void;
+  onSortChange: (value: ProjectSort) => void;
+  onClear: () => void;
+}
+
+const ProjectFilterBar = ({
+  query,
+  tech,
+  sort,
+  resultCount,
+  totalCount,
+  isFiltering,
+  onQueryChange,
+  onToggleTech,
+  onSortChange,
+  onClear,
+}: ProjectFilterBarProps) => {
+  return (
+    <div className="hud-panel p-4 space-y-3">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            placeholder="Search projects..."
+            aria-label="Search projects"
+            className="pl-9 bg-space-dark/60 border-border/50"
+          />
+        </div>
+
+        <Select value={sort} onValueChange={(value) => onSortChange(value as ProjectSort)}>
+          <SelectTrigger className="sm:w-44 bg-space-dark/60 border-border/50" aria-label="Sort projects">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(projectSortLabels) as ProjectSort[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {projectSortLabels[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5" role="group" aria-label="Filter by technology">
+        {projectTechOptions.map((skill) => {
+          const active = tech.includes(skill.id);
+          return (
+            <button
+              key={skill.id}
+              type="button"
+              onClick={() => onToggleTech(skill.id)}
+              aria-pressed={active}
+              className={`px-2 py-0.5 rounded text-[10px] font-mono uppercase border transition-colors ${
+                active
+                  ? 'bg-primary text-primary-foreground border-primary'
+                  : 'bg-primary/5 text-primary/70 border-primary/20 hover:border-primary/50'
+              }`}
+            >
+              {skill.name}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between text-xs font-mono text-muted-foreground">
+        <span aria-live="polite">
+          {isFiltering ? `// ${resultCount} of ${totalCount} projects match` : `// ${totalCount} projects`}
+        </span>
+        {isFiltering && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <X size={12} />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectFilterBar;
@@ -0,0 +1,111 @@
+import { Link } from 'react-router-dom';
+import { Briefcase, ChevronRight, FolderGit2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { getSkillUsage, proficiencyLabels, resolveSkill, skillCategories } from '@/data/skills';
+import { cn } from '@/lib/utils';
+
+interface SkillChipProps {
+  name: string; // any spelling; resolved through the skills registry
+  className?: string;
+  showIcon?: boolean;
+}
+
+const SkillChip = ({ name, className, showIcon = false }: SkillChipProps) => {
+  const skill = resolveSkill(name);
+  const { projects, experiences } = getSkillUsage(skill.id);
+  const category = skillCategories.find((c) => c.id === skill.category);
+  const Icon = skill.icon;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          // Chips sit inside clickable cards; keep the click/keys for the popover
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+          className={cn(
+            'inline-flex items-center gap-1.5 cursor-pointer hover:brightness-125 transition',
+            'focus:outline-none focus-visible:ring-1 focus-visible:ring-primary',
+            className
+          )}
+        >
+          {showIcon && Icon && <Icon size={12} className="opacity-70" />}
+          {skill.name}
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent
+        // Above the project dialog (z-[200]) so chips inside it still work
+        className="w-64 z-[400] border-primary/30 bg-space-dark/95 backdrop-blur-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-3 flex items-start justify-between gap-3">
+          <div>
+            <p className="font-orbitron text-sm text-foreground">{skill.name}</p>
+            <p className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground mt-1">
+              {category?.label}
+              {skill.proficiency && ` · ${proficiencyLabels[skill.proficiency]}`}
+            </p>
+          </div>
+          <Link
+            to={`/tech/${skill.id}`}
+            className="flex items-center gap-0.5 text-[10px] font-mono uppercase tracking-wider text-primary
+                       hover:text-primary/80 transition-colors whitespace-nowrap"
+          >
+            View all
+            <ChevronRight size={12} />
+          </Link>
+        </div>
+
+        {projects.length === 0 && experiences.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Not yet tagged on any project or role.</p>
+        ) : (
+          <div className="space-y-3">
+            {projects.length > 0 && (
+              <div>
+                <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1.5">Projects</p>
+                <ul className="space-y-1">
+                  {projects.map((p) => (
+                    <li key={p.id}>
+                      <Link
+                        to={`/projects/${p.id}`}
+                        className="flex items-center gap-2 text-sm text-foreground/80 hover:text-primary transition-colors"
+                      >
+                        <FolderGit2 size={12} className="text-primary/70 flex-shrink-0" />
+                        {p.name}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {experiences.length > 0 && (
+              <div>
+                <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1.5">Roles</p>
+                <ul className="space-y-1">
+                  {experiences.map((exp) => (
+                    <li key={exp.id}>
+                      <Link
+                        to={`/experience?role=${exp.id}`}
+                        className="flex items-center gap-2 text-sm text-foreground/80 hover:text-hologram transition-colors"
+                      >
+                        <Briefcase size={12} className="text-hologram/70 flex-shrink-0" />
+                        <span className="truncate">
+                          {exp.role} · {exp.company}
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SkillChip;
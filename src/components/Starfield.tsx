@@ -1,4 +1,11 @@
 import { useEffect, useRef, useCallback } from 'react';
+import { useBackgroundSettings } from '@/hooks/use-background';
+import { useDevice } from '@/hooks/use-device';
+import { useQuality } from '@/hooks/use-quality';
+import { reportFrame } from '@/lib/debug';
+import { reportInterval, type GlowQuality } from '@/lib/quality';
+import { drawStarSprite } from '@/lib/stars';
+import { LAYER, ticker } from '@/lib/ticker';
 
 interface Star {
   x: number;
@@ -10,18 +17,34 @@ interface Star {
   twinkleOffset: number;
 }
 
-interface StarfieldProps {
-  starCount?: number;
-  speed?: number;
-  hyperspeed?: boolean;
-}
-
-const Starfield = ({ starCount = 200, speed = 0.5, hyperspeed = false }: StarfieldProps) => {
+const randomStar = (width: number, height: number): Star => ({
+  x: Math.random() * width - width / 2,
+  y: Math.random() * height - height / 2,
+  z: Math.random() * 1000,
+  size: Math.random() * 2 + 0.5,
+  opacity: Math.random() * 0.8 + 0.2,
+  twinkleSpeed: Math.random() * 0.02 + 0.01,
+  twinkleOffset: Math.random() * Math.PI * 2,
+});
+
+// Mounted once in App; pages set density and speed through useBackground()
+const Starfield = () => {
+  const { starCount, speed, hyperspeed } = useBackgroundSettings();
+  const { reducedMotion } = useDevice();
+  // The adaptive tier scales the star count, resolution and glow (see lib/quality)
+  const quality = useQuality();
+  const count = Math.round(starCount * quality.starRatio);
+  const maxDpr = quality.maxDpr;
+  const glow = quality.glow;
+  const tierName = quality.name;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const starsRef = useRef<Star[]>([]);
-  const animationRef = useRef<number>();
   const timeRef = useRef(0);
 
+  // Read per frame, so a page changing speed doesn't restart anything
+  const motionRef = useRef({ speed, hyperspeed });
+  motionRef.current = { speed, hyperspeed };
+
   // "World" size used for simulation + projection (kept stable during pinch)
   const worldRef = useRef({ w: 0, h: 0 });
 
@@ -33,19 +56,14 @@ const Starfield = ({ starCount = 200, speed = 0.5, hyperspeed = false }: Starfie
   const pendingResizeRef = useRef<{ w: number; h: number; dpr: number } | null>(null);
   const resizeTimerRef = useRef<number | null>(null);
 
-  const initStars = useCallback(
+  // Trims or tops up to `count`, keeping the stars already on screen so a tier change doesn't reshuffle the sky
+  const fitStars = useCallback(
     (width: number, height: number) => {
-      starsRef.current = Array.from({ length: starCount }, () => ({
-        x: Math.random() * width - width / 2,
-        y: Math.random() * height - height / 2,
-        z: Math.random() * 1000,
-        size: Math.random() * 2 + 0.5,
-        opacity: Math.random() * 0.8 + 0.2,
-        twinkleSpeed: Math.random() * 0.02 + 0.01,
-        twinkleOffset: Math.random() * Math.PI * 2,
-      }));
+      const stars = starsRef.current;
+      if (stars.length > count) stars.length = count;
+      while (stars.length < count) stars.push(randomStar(width, height));
     },
-    [starCount]
+    [count]
   );
 
   const drawStar = useCallback(
@@ -56,26 +74,20 @@ const Starfield = ({ starCount = 200, speed = 0.5, hyperspeed = false }: Starfie
       size: number,
       opacity: number,
       isHyperspeed: boolean,
-      z: number
+      z: number,
+      glow: GlowQuality
     ) => {
-      const gradient = ctx.createRadialGradient(x, y, 0, x, y, size * 2);
-      gradient.addColorStop(0, `rgba(255, 255, 255, ${opacity})`);
-      gradient.addColorStop(0.5, `rgba(200, 230, 255, ${opacity * 0.5})`);
-      gradient.addColorStop(1, 'transparent');
-
-      ctx.beginPath();
-
       if (isHyperspeed) {
         const streakLength = Math.max(50, (1000 - z) / 5);
+        ctx.beginPath();
         ctx.moveTo(x, y);
         ctx.lineTo(x, y + streakLength);
         ctx.strokeStyle = `rgba(200, 230, 255, ${opacity * 0.8})`;
         ctx.lineWidth = size;
         ctx.stroke();
       } else {
-        ctx.arc(x, y, size, 0, Math.PI * 2);
-        ctx.fillStyle = gradient;
-        ctx.fill();
+        // Pre-rendered glow; no gradient is built per star
+        drawStarSprite(ctx, x, y, size, dprRef.current, opacity, glow);
       }
     },
     []
@@ -139,13 +151,13 @@ const Starfield = ({ starCount = 200, speed = 0.5, hyperspeed = false }: Starfie
 
     const requestResize = (reason: 'normal' | 'zoom') => {
       const { w, h } = getLayoutSize();
-      const dpr = Math.min(window.devicePixelRatio || 1, 2);
+      const dpr = Math.min(window.devicePixelRatio || 1, maxDpr);
 
       if (!worldRef.current.w || !worldRef.current.h) {
         // first paint
         worldRef.current = { w, h };
         setCanvasBackingStore(w, h, dpr);
-        initStars(w, h);
+        fitStars(w, h);
         return;
       }
 
@@ -162,8 +174,9 @@ const Starfield = ({ starCount = 200, speed = 0.5, hyperspeed = false }: Starfie
       applyResizeNow({ w, h, dpr }, true);
     };
 
-    // Initial setup
+    // Initial setup; also runs when the quality tier changes the star count or DPR
     requestResize('normal');
+    fitStars(worldRef.current.w, worldRef.current.h);
 
     const onWindowResize = () => requestResize('normal');
     window.addEventListener('resize', onWindowResize);
@@ -185,15 +198,13 @@ const Starfield = ({ starCount = 200, speed = 0.5, hyperspeed = false }: Starfie
       vv.addEventListener('scroll', onVVChange);
     }
 
-    const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-
-    const animate = () => {
+    const animate = (_t: number, dt: number) => {
       const { w: width, h: height } = worldRef.current;
-      if (!width || !height) {
-        animationRef.current = requestAnimationFrame(animate);
-        return;
-      }
+      if (!width || !height) return;
 
+      const frameStart = performance.now();
+      if (dt > 0) reportInterval(dt);
+      const { speed, hyperspeed } = motionRef.current;
       const centerX = width / 2;
       const centerY = height / 2;
 
@@ -225,14 +236,22 @@ const Starfield = ({ starCount = 200, speed = 0.5, hyperspeed = false }: Starfie
           Math.sin(timeRef.current * star.twinkleSpeed * 60 + star.twinkleOffset) * 0.3 + 0.7;
         const opacity = star.opacity * twinkle * (0.3 + depth * 0.7);
 
-        drawStar(ctx, screenX, screenY, size, opacity, hyperspeed, star.z);
+        drawStar(ctx, screenX, screenY, size, opacity, hyperspeed, star.z, glow);
       }
 
-      animationRef.current = requestAnimationFrame(animate);
+      const frameMs = performance.now() - frameStart;
+      reportFrame('starfield', {
+        frameMs,
+        layers: { stars: frameMs },
+        dpr: dprRef.current,
+        backing: { width: canvas.width, height: canvas.height },
+        quality: tierName,
+      });
     };
 
-    if (!prefersReducedMotion) {
-      animate();
+    let removeLayer: (() => void) | null = null;
+    if (!reducedMotion) {
+      removeLayer = ticker.add(animate, LAYER.background);
     } else {
       const { w: width, h: height } = worldRef.current;
       const centerX = width / 2;
@@ -246,7 +265,7 @@ const Starfield = ({ starCount = 200, speed = 0.5, hyperspeed = false }: Starfie
         const depth = 1 - star.z / 1000;
         const size = star.size * (1 + depth * 2);
 
-        drawStar(ctx, screenX, screenY, size, star.opacity * 0.7, false, star.z);
+        drawStar(ctx, screenX, screenY, size, star.opacity * 0.7, false, star.z, glow);
       }
     }
 
@@ -261,9 +280,9 @@ const Starfield = ({ starCount = 200, speed = 0.5, hyperspeed = false }: Starfie
       }
 
       if (resizeTimerRef.current) window.clearTimeout(resizeTimerRef.current);
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+      removeLayer?.();
     };
-  }, [speed, hyperspeed, initStars, drawStar]);
+  }, [count, maxDpr, glow, tierName, reducedMotion, fitStars, drawStar]);
 
   return (
     <canvas
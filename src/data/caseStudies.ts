@@ -0,0 +1,60 @@
+import GithubSlugger from 'github-slugger';
+
+// Long-form case studies live next to the JSON content as ./case-studies/<project-id>.md.
+// They are loaded lazily so the Markdown only ships when a case study is opened.
+const loaders = import.meta.glob<string>('./case-studies/*.md', {
+  query: '?raw',
+  import: 'default',
+});
+
+const fileFor = (projectId: string) => `./case-studies/${projectId}.md`;
+
+export const hasCaseStudy = (projectId: string) => fileFor(projectId) in loaders;
+
+export const loadCaseStudy = async (projectId: string): Promise<string | null> => {
+  const load = loaders[fileFor(projectId)];
+  return load ? load() : null;
+};
+
+// ---------- Derived metadata ----------
+
+export interface CaseStudyHeading {
+  id: string;
+  text: string;
+  depth: 2 | 3;
+}
+
+const WORDS_PER_MINUTE = 220;
+
+const stripCodeFences = (markdown: string) => markdown.replace(/```[\s\S]*?```/g, '');
+
+// Plain text of an inline Markdown heading (links, emphasis, code)
+const inlineText = (raw: string) =>
+  raw
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .trim();
+
+// Uses the same slugger as rehype-slug so the ids match the rendered headings
+export const extractHeadings = (markdown: string): CaseStudyHeading[] => {
+  const slugger = new GithubSlugger();
+  const headings: CaseStudyHeading[] = [];
+
+  for (const line of stripCodeFences(markdown).split('\n')) {
+    const match = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (!match) continue;
+
+    // Slug every heading (not just h2/h3) to keep duplicate suffixes in sync
+    const text = inlineText(match[2]);
+    const id = slugger.slug(text);
+    const depth = match[1].length;
+    if (depth === 2 || depth === 3) headings.push({ id, text, depth });
+  }
+
+  return headings;
+};
+
+export const readingTimeMinutes = (markdown: string) => {
+  const words = stripCodeFences(markdown).split(/\s+/).filter(Boolean).length;
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+};
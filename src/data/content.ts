@@ -0,0 +1,20 @@
+import projectsJson from './projects.json';
+import experienceJson from './experience.json';
+import { experiencesSchema, parseContent, projectsSchema } from './schema';
+import { compareByRecency } from './period';
+
+export type { AsteroidColor, Experience, Project } from './schema';
+
+// Validated once at module load. The same schemas run in vite.config.ts,
+// so a bad edit fails `vite build` before it can reach this point.
+export const projects = parseContent('src/data/projects.json', projectsSchema, projectsJson);
+
+// Always reverse-chronological, regardless of the order in the JSON file
+export const experiences = parseContent(
+  'src/data/experience.json',
+  experiencesSchema,
+  experienceJson
+).sort(compareByRecency);
+
+export const hasLink = (href?: string | null): href is string =>
+  typeof href === 'string' && href.trim().length > 0;
@@ -0,0 +1,77 @@
+// Month-precision date helpers for experience periods ("2025-04" .. "2025-10" | null).
+// NOTE: imported by schema.ts, so keep it free of "@/..." aliases.
+
+import type { Experience } from './schema';
+
+export const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export type PeriodStatus = 'current' | 'complete' | 'upcoming';
+
+// end: null = ongoing
+export type Period = Pick<Experience, 'start' | 'end'>;
+
+// Months since year 0, so periods compare and subtract as plain integers
+export const monthIndex = (month: string) => {
+  const match = MONTH_PATTERN.exec(month);
+  if (!match) throw new Error(`Invalid month "${month}" (expected YYYY-MM)`);
+  return Number(match[1]) * 12 + (Number(match[2]) - 1);
+};
+
+export const monthIndexOf = (date: Date) => date.getFullYear() * 12 + date.getMonth();
+
+const endIndex = (period: Period, now: Date) =>
+  period.end === null ? monthIndexOf(now) : monthIndex(period.end);
+
+export const formatMonth = (month: string) => {
+  const index = monthIndex(month);
+  return `${MONTH_NAMES[index % 12]} ${Math.floor(index / 12)}`;
+};
+
+export const formatPeriod = (period: Period) =>
+  `${formatMonth(period.start)} - ${period.end === null ? 'Present' : formatMonth(period.end)}`;
+
+// Inclusive of both ends: "Apr 2025 - Apr 2025" is one month
+export const periodMonths = (period: Period, now = new Date()) =>
+  Math.max(0, endIndex(period, now) - monthIndex(period.start) + 1);
+
+export const formatDuration = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [years > 0 ? `${years} yr` : '', rest > 0 ? `${rest} mo` : ''].filter(Boolean);
+  return parts.length ? parts.join(' ') : '< 1 mo';
+};
+
+export const periodStatus = (period: Period, now = new Date()): PeriodStatus => {
+  const today = monthIndexOf(now);
+  if (monthIndex(period.start) > today) return 'upcoming';
+  if (period.end === null || monthIndex(period.end) >= today) return 'current';
+  return 'complete';
+};
+
+// Reverse-chronological: most recent start first, then the one that ends last
+export const compareByRecency = (a: Period, b: Period) => {
+  const byStart = monthIndex(b.start) - monthIndex(a.start);
+  if (byStart !== 0) return byStart;
+  const aEnd = a.end === null ? Infinity : monthIndex(a.end);
+  const bEnd = b.end === null ? Infinity : monthIndex(b.end);
+  return bEnd === aEnd ? 0 : bEnd > aEnd ? 1 : -1;
+};
+
+// Total months covered by a set of periods, counting overlapping stretches once
+export const coveredMonths = (periods: Period[], now = new Date()) => {
+  const ranges = periods
+    .map((p) => [monthIndex(p.start), endIndex(p, now)] as const)
+    .filter(([start, end]) => end >= start)
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let cursor = -Infinity; // first month not yet counted
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, cursor);
+    if (end >= from) total += end - from + 1;
+    cursor = Math.max(cursor, end + 1);
+  }
+  return total;
+};
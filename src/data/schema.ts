@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { MONTH_PATTERN, monthIndex } from './period';
+
+// NOTE: this file is also imported by vite.config.ts (build-time validation),
+// so keep it free of "@/..." aliases and browser-only APIs.
+
+const nonEmpty = z.string().trim().min(1, 'must not be empty');
+
+const slug = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'must be a lowercase-kebab-case slug');
+
+// Links are optional per project, but when present they must be real URLs
+const optionalUrl = z.string().trim().url('must be a valid URL').nullable();
+
+const month = z.string().regex(MONTH_PATTERN, 'must be a YYYY-MM month');
+
+export const asteroidColorSchema = z.enum(['primary', 'secondary', 'accent', 'hologram']);
+
+export type AsteroidColor = z.infer<typeof asteroidColorSchema>;
+
+// Picks the asteroid colour when a project doesn't set one
+export const projectCategorySchema = z.enum(['web', 'hardware', 'data', 'mobile']);
+
+export type ProjectCategory = z.infer<typeof projectCategorySchema>;
+
+export const projectSchema = z.object({
+  id: slug,
+  name: nonEmpty,
+  tagline: nonEmpty,
+  description: nonEmpty,
+  tech: z.array(nonEmpty).min(1, 'list at least one technology'),
+  links: z.object({
+    github: optionalUrl,
+    demo: optionalUrl,
+  }),
+  impact: z.array(nonEmpty).min(1, 'list at least one impact bullet'),
+  date: month, // when the project shipped; drives the "newest" sort
+  featured: z.boolean().optional(),
+  category: projectCategorySchema.optional(),
+  asteroid: z
+    .object({
+      x: z.number().min(0).max(1),
+      y: z.number().min(0).max(1),
+      size: z.number().positive(),
+      color: asteroidColorSchema,
+    })
+    .partial()
+    .optional(),
+});
+
+export const experienceSchema = z
+  .object({
+    id: slug,
+    role: nonEmpty,
+    company: nonEmpty,
+    start: month,
+    end: month.nullable(), // null = ongoing
+    location: nonEmpty.nullable(),
+    description: nonEmpty,
+    achievements: z.array(nonEmpty).min(1, 'list at least one achievement'),
+    tech: z.array(nonEmpty),
+  })
+  .superRefine((exp, ctx) => {
+    if (exp.end === null || !MONTH_PATTERN.test(exp.start) || !MONTH_PATTERN.test(exp.end)) return;
+    if (monthIndex(exp.end) < monthIndex(exp.start)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['end'],
+        message: `must not be before start (${exp.start})`,
+      });
+    }
+  });
+
+// Every collection is an array of entries keyed by a unique id
+const uniqueIds = <T extends z.ZodTypeAny>(item: T) =>
+  z.array(item).superRefine((entries, ctx) => {
+    const seen = new Set<string>();
+    entries.forEach((entry, i) => {
+      const id = (entry as { id?: unknown })?.id;
+      if (typeof id !== 'string') return;
+      if (seen.has(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [i, 'id'],
+          message: `duplicate id "${id}"`,
+        });
+      }
+      seen.add(id);
+    });
+  });
+
+export const projectsSchema = uniqueIds(projectSchema);
+export const experiencesSchema = uniqueIds(experienceSchema);
+
+// Inferred, so the types can't drift from what's validated. The app tsconfig isn't strict,
+// so zod shows every field as optional; parsed content always has the required ones.
+export type Project = z.infer<typeof projectSchema>;
+export type Experience = z.infer<typeof experienceSchema>;
+
+// ---------- Readable errors ----------
+
+const describeEntry = (raw: unknown, index: number) => {
+  const id = Array.isArray(raw) ? (raw[index] as { id?: unknown })?.id : undefined;
+  return typeof id === 'string' ? `[${index}] "${id}"` : `[${index}]`;
+};
+
+export const formatContentError = (file: string, raw: unknown, error: z.ZodError) => {
+  const lines = error.issues.map((issue) => {
+    const [index, ...rest] = issue.path;
+    const where =
+      typeof index === 'number'
+        ? `${describeEntry(raw, index)}${rest.length ? ` ${rest.join('.')}` : ''}`
+        : issue.path.join('.') || '(root)';
+    return `  - ${where}: ${issue.message}`;
+  });
+
+  return `Invalid content in ${file} (${error.issues.length} issue${
+    error.issues.length === 1 ? '' : 's'
+  }):\n${lines.join('\n')}`;
+};
+
+export class ContentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentValidationError';
+  }
+}
+
+export const parseContent = <S extends z.ZodTypeAny>(file: string, schema: S, raw: unknown): z.infer<S> => {
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new ContentValidationError(formatContentError(file, raw, result.error));
+  }
+  return result.data;
+};
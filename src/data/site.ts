@@ -0,0 +1,11 @@
+// Site-wide constants shared by the navigation, pages and command palette
+
+export const navItems = [
+  { path: '/', label: 'Home', icon: '◈' },
+  { path: '/projects', label: 'Projects', icon: '◉' },
+  { path: '/experience', label: 'Experience', icon: '◎' },
+];
+
+export const resumeUrl = `${import.meta.env.BASE_URL}resume.pdf`;
+
+export const contactEmail = 'johannaresh@gmail.com';
@@ -0,0 +1,172 @@
+import { Atom, Braces, Coffee, Cpu, Database, GitBranch, Server, Smartphone, type LucideIcon } from 'lucide-react';
+import { experiences, projects, type Experience, type Project } from './content';
+import { coveredMonths } from './period';
+
+export type SkillCategory = 'frontend' | 'backend' | 'systems-data' | 'other';
+export type Proficiency = 'expert' | 'proficient' | 'familiar';
+
+export interface Skill {
+  id: string;
+  name: string;
+  category: SkillCategory;
+  aliases?: string[]; // alternate spellings used in projects.json / experience.json
+  icon?: LucideIcon;
+  proficiency?: Proficiency; // skills with a proficiency are listed as core competencies
+  featured?: boolean; // shown in the home page "Technical Arsenal"
+}
+
+export const skillCategories: { id: SkillCategory; label: string }[] = [
+  { id: 'frontend', label: 'Frontend' },
+  { id: 'backend', label: 'Backend' },
+  { id: 'systems-data', label: 'Systems & Data' },
+  { id: 'other', label: 'Other Skills' },
+];
+
+export const proficiencyLabels: Record<Proficiency, string> = {
+  expert: 'Expert',
+  proficient: 'Proficient',
+  familiar: 'Familiar',
+};
+
+// Order within a category is display order
+export const skills: Skill[] = [
+  // Frontend
+  { id: 'react', name: 'React', category: 'frontend', icon: Atom, proficiency: 'expert', featured: true },
+  { id: 'typescript', name: 'TypeScript', category: 'frontend', icon: Braces, proficiency: 'expert', featured: true },
+  { id: 'nextjs', name: 'Next.js', category: 'frontend', aliases: ['NextJS'], proficiency: 'proficient' },
+  { id: 'javascript', name: 'JavaScript', category: 'frontend', aliases: ['JS'] },
+  { id: 'html', name: 'HTML', category: 'frontend', proficiency: 'expert' },
+  { id: 'css', name: 'CSS', category: 'frontend', proficiency: 'expert' },
+  { id: 'tailwind-css', name: 'Tailwind CSS', category: 'frontend', aliases: ['Tailwind'], proficiency: 'proficient' },
+  { id: 'framer-motion', name: 'Framer Motion', category: 'frontend', proficiency: 'proficient' },
+  { id: 'frontend', name: 'Frontend', category: 'frontend' },
+  { id: 'ui-logic', name: 'UI Logic', category: 'frontend' },
+  { id: 'localstorage', name: 'localStorage', category: 'frontend' },
+  { id: 'static-web', name: 'Web (Static)', category: 'frontend' },
+
+  // Backend
+  { id: 'nodejs', name: 'Node.js', category: 'backend', aliases: ['NodeJS', 'Node'], icon: Server, proficiency: 'proficient', featured: true },
+  { id: 'python', name: 'Python', category: 'backend', proficiency: 'expert', featured: true },
+  { id: 'websockets', name: 'WebSockets', category: 'backend', aliases: ['WebSocket'], proficiency: 'proficient' },
+  { id: 'rest-apis', name: 'REST APIs', category: 'backend', aliases: ['REST'], proficiency: 'proficient' },
+  { id: 'postgresql', name: 'PostgreSQL', category: 'backend', aliases: ['Postgres'], icon: Database, proficiency: 'proficient', featured: true },
+  { id: 'mongodb', name: 'MongoDB', category: 'backend', aliases: ['Mongo'], proficiency: 'proficient' },
+  { id: 'java', name: 'Java', category: 'backend', icon: Coffee, featured: true },
+  { id: 'supabase', name: 'Supabase', category: 'backend' },
+  { id: 'json', name: 'JSON', category: 'backend' },
+  { id: 'gemini-api', name: 'Gemini API', category: 'backend' },
+
+  // Systems & Data
+  { id: 'cpp', name: 'C++', category: 'systems-data', aliases: ['CPP'], icon: Cpu, proficiency: 'proficient' },
+  { id: 'serial-io', name: 'Serial I/O', category: 'systems-data', proficiency: 'proficient' },
+  { id: 'pandas', name: 'Pandas', category: 'systems-data', proficiency: 'proficient' },
+  { id: 'nlp', name: 'NLP', category: 'systems-data', proficiency: 'familiar' },
+  { id: 'dart', name: 'Dart', category: 'systems-data', icon: Smartphone, proficiency: 'proficient', featured: true },
+  { id: 'asyncio', name: 'Asyncio', category: 'systems-data', aliases: ['Async IO'] },
+  { id: 'numpy', name: 'NumPy', category: 'systems-data' },
+  { id: 'scipy', name: 'SciPy', category: 'systems-data', aliases: ['SciPy (SLSQP)'] },
+  { id: 'yfinance', name: 'yfinance', category: 'systems-data' },
+  { id: 'swift', name: 'Swift', category: 'systems-data' },
+  { id: 'cmake', name: 'CMake', category: 'systems-data' },
+
+  // Other
+  { id: 'git', name: 'Git', category: 'other', icon: GitBranch, featured: true },
+  { id: 'leadership', name: 'Leadership', category: 'other', proficiency: 'expert' },
+  { id: 'public-speaking', name: 'Public Speaking', category: 'other', proficiency: 'proficient' },
+  { id: 'market-analysis', name: 'Market Analysis', category: 'other', aliases: ['Market-Analysis'], proficiency: 'proficient' },
+  { id: 'backtesting', name: 'Backtesting', category: 'other', proficiency: 'proficient' },
+  { id: 'operations', name: 'Operations', category: 'other' },
+  { id: 'partnerships', name: 'Partnerships', category: 'other' },
+  { id: 'outreach', name: 'Outreach', category: 'other' },
+  { id: 'content-ops', name: 'Content Ops', category: 'other' },
+  { id: 'editorial-pipeline', name: 'Editorial Pipeline', category: 'other' },
+  { id: 'google-classroom', name: 'Google Classroom', category: 'other' },
+  { id: 'google-search-console', name: 'Google Search Console', category: 'other' },
+  { id: 'goatcounter', name: 'GoatCounter', category: 'other' },
+];
+
+// ---------- Lookup ----------
+
+// "Node.js", "NodeJS" and "node js" all normalize to "nodejs"
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9+#]/g, '');
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/\+/g, 'p')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+const byId = new Map(skills.map((s) => [s.id, s]));
+
+const byName = new Map<string, Skill>();
+for (const skill of skills) {
+  for (const name of [skill.id, skill.name, ...(skill.aliases ?? [])]) {
+    byName.set(normalize(name), skill);
+  }
+}
+
+export const getSkill = (id: string) => byId.get(id);
+
+// Tags that aren't registered still resolve, so every chip has somewhere to go
+export const resolveSkill = (name: string): Skill =>
+  byName.get(normalize(name)) ?? { id: slugify(name), name, category: 'other' };
+
+export const featuredSkills = skills.filter((s) => s.featured);
+
+export const skillsByCategory = (category: SkillCategory) =>
+  skills.filter((s) => s.category === category && s.proficiency);
+
+// ---------- Usage ----------
+
+export interface SkillUsage {
+  projects: Project[];
+  experiences: Experience[];
+}
+
+const usage = new Map<string, SkillUsage>();
+const usageFor = (id: string) => {
+  let entry = usage.get(id);
+  if (!entry) {
+    entry = { projects: [], experiences: [] };
+    usage.set(id, entry);
+  }
+  return entry;
+};
+
+for (const project of projects) {
+  for (const tag of project.tech) usageFor(resolveSkill(tag).id).projects.push(project);
+}
+for (const exp of experiences) {
+  for (const tag of exp.tech) usageFor(resolveSkill(tag).id).experiences.push(exp);
+}
+
+export const getSkillUsage = (id: string): SkillUsage => usage.get(id) ?? { projects: [], experiences: [] };
+
+// Time on the job with this skill; overlapping roles are only counted once
+export const getSkillMonths = (id: string, now = new Date()) =>
+  coveredMonths(getSkillUsage(id).experiences, now);
+
+// Skills that most often appear on the same projects and roles
+export const getRelatedSkills = (id: string, limit = 8): Skill[] => {
+  const { projects: ps, experiences: es } = getSkillUsage(id);
+  const counts = new Map<string, { skill: Skill; count: number }>();
+
+  for (const tags of [...ps.map((p) => p.tech), ...es.map((e) => e.tech)]) {
+    // Count each co-occurring skill once per project/role
+    const seen = new Set<string>();
+    for (const tag of tags) {
+      const skill = resolveSkill(tag);
+      if (skill.id === id || seen.has(skill.id)) continue;
+      seen.add(skill.id);
+      const entry = counts.get(skill.id) ?? { skill, count: 0 };
+      entry.count += 1;
+      counts.set(skill.id, entry);
+    }
+  }
+
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.skill.name.localeCompare(b.skill.name))
+    .slice(0, limit)
+    .map((entry) => entry.skill);
+};
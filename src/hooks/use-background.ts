@@ -0,0 +1,34 @@
+import { createContext, useContext, useEffect, useId } from 'react';
+
+// The one app-wide starfield; pages tune it instead of mounting their own
+export interface BackgroundSettings {
+  starCount: number;
+  speed: number;
+  hyperspeed: boolean;
+}
+
+export const DEFAULT_BACKGROUND: BackgroundSettings = { starCount: 200, speed: 0.25, hyperspeed: false };
+
+interface BackgroundContextValue {
+  settings: BackgroundSettings;
+  // Entries are keyed by caller: setting an existing id updates it where it is in the stack
+  set: (id: string, overrides: Partial<BackgroundSettings>) => void;
+  clear: (id: string) => void;
+}
+
+export const BackgroundContext = createContext<BackgroundContextValue>({
+  settings: DEFAULT_BACKGROUND,
+  set: () => {},
+  clear: () => {},
+});
+
+export const useBackgroundSettings = () => useContext(BackgroundContext).settings;
+
+// Overrides the starfield while the calling page is mounted; the page mounted last wins,
+// even if one mounted earlier changes its values later
+export const useBackground = ({ starCount, speed, hyperspeed }: Partial<BackgroundSettings>) => {
+  const { set, clear } = useContext(BackgroundContext);
+  const id = useId();
+  useEffect(() => set(id, { starCount, speed, hyperspeed }), [set, id, starCount, speed, hyperspeed]);
+  useEffect(() => () => clear(id), [clear, id]);
+};
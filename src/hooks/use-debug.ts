@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { debugStore } from '@/lib/debug';
+
+// Re-renders when the debug overlay is toggled or any of its switches change
+export const useDebug = () => useSyncExternalStore(debugStore.subscribe, debugStore.get);
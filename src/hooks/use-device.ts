@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { deviceStore } from '@/lib/device';
+
+// Re-renders when any capability changes (rotation, battery, the frame-rate sample landing)
+export const useDevice = () => useSyncExternalStore(deviceStore.subscribe, deviceStore.get);
@@ -1,19 +1,6 @@
-import * as React from "react";
-
-const MOBILE_BREAKPOINT = 768;
+import { useDevice } from "@/hooks/use-device";
 
+// Phone-sized viewport (below Tailwind's md), from the shared device capabilities
 export function useIsMobile() {
-  const [isMobile, setIsMobile] = React.useState<boolean | undefined>(undefined);
-
-  React.useEffect(() => {
-    const mql = window.matchMedia(`(max-width: ${MOBILE_BREAKPOINT - 1}px)`);
-    const onChange = () => {
-      setIsMobile(window.innerWidth < MOBILE_BREAKPOINT);
-    };
-    mql.addEventListener("change", onChange);
-    setIsMobile(window.innerWidth < MOBILE_BREAKPOINT);
-    return () => mql.removeEventListener("change", onChange);
-  }, []);
-
-  return !!isMobile;
+  return useDevice().viewport === "phone";
 }
@@ -0,0 +1,53 @@
+import { useCallback, useMemo } from 'react';
+import { useLocation, useMatch, useNavigate } from 'react-router-dom';
+import { projects, type Project } from '@/data/content';
+
+interface DialogLocationState {
+  fromList?: boolean;
+}
+
+// Dialog state lives in the URL (/projects/:id) so any project can be deep-linked.
+// Every view that opens a project goes through here so back/close behave the same.
+export const useProjectDialog = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const detailMatch = useMatch('/projects/:id');
+
+  const selectedId = detailMatch?.params.id ?? null;
+  const selectedProject = useMemo(
+    () => (selectedId ? projects.find((p) => p.id === selectedId) ?? null : null),
+    [selectedId]
+  );
+
+  const openProject = useCallback(
+    (project: Project) => {
+      // Keep the filter query string so closing returns to the same filtered view
+      navigate(
+        { pathname: `/projects/${project.id}`, search: location.search },
+        { state: { fromList: true } satisfies DialogLocationState }
+      );
+    },
+    [navigate, location.search]
+  );
+
+  // Previous/next replace the entry, so closing still pops back to the list in one step
+  const showProject = useCallback(
+    (project: Project) => {
+      navigate(
+        { pathname: `/projects/${project.id}`, search: location.search },
+        { replace: true, state: location.state }
+      );
+    },
+    [navigate, location.search, location.state]
+  );
+
+  // Pop our own history entry so the back button stays in sync;
+  // direct visits (shared links) have nothing to pop, so replace instead.
+  const closeProject = useCallback(() => {
+    const fromList = (location.state as DialogLocationState | null)?.fromList;
+    if (fromList) navigate(-1);
+    else navigate({ pathname: '/projects', search: location.search }, { replace: true });
+  }, [location.state, location.search, navigate]);
+
+  return { selectedId, selectedProject, openProject, showProject, closeProject };
+};
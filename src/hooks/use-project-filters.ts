@@ -0,0 +1,133 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { projects, type Project } from '@/data/content';
+import { monthIndex } from '@/data/period';
+import { resolveSkill, type Skill } from '@/data/skills';
+import { deviceStore } from '@/lib/device';
+
+export type ProjectsView = 'asteroid' | 'grid';
+
+let defaultView: ProjectsView | null = null;
+
+// What /projects shows without ?view: the grid on lightweight devices (Data Saver, low battery,
+// slow frames). Decided on first use and kept for the session, so the page and the command
+// palette always agree and a late capability change never swaps the view under the visitor.
+export const defaultProjectsView = (): ProjectsView => {
+  defaultView ??= deviceStore.get().lightweight ? 'grid' : 'asteroid';
+  return defaultView;
+};
+
+export type ProjectSort = 'newest' | 'name' | 'featured';
+
+export const projectSortLabels: Record<ProjectSort, string> = {
+  newest: 'Newest',
+  name: 'Name (A–Z)',
+  featured: 'Featured',
+};
+
+const DEFAULT_SORT: ProjectSort = 'featured';
+
+const isSort = (value: string | null): value is ProjectSort =>
+  value === 'newest' || value === 'name' || value === 'featured';
+
+const techIdsOf = (project: Project) => project.tech.map((t) => resolveSkill(t).id);
+
+// Every tech tag used by a project, most common first
+export const projectTechOptions: Skill[] = (() => {
+  const counts = new Map<string, { skill: Skill; count: number }>();
+  for (const project of projects) {
+    for (const tag of project.tech) {
+      const skill = resolveSkill(tag);
+      const entry = counts.get(skill.id) ?? { skill, count: 0 };
+      entry.count += 1;
+      counts.set(skill.id, entry);
+    }
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.skill.name.localeCompare(b.skill.name))
+    .map((entry) => entry.skill);
+})();
+
+const matchesQuery = (project: Project, query: string) => {
+  if (!query) return true;
+  const haystack = [project.name, project.tagline, project.description, ...project.impact]
+    .join('\n')
+    .toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term));
+};
+
+// Selected tags are OR-ed: a project matches if it uses any of them
+const matchesTech = (project: Project, tech: string[]) =>
+  tech.length === 0 || techIdsOf(project).some((id) => tech.includes(id));
+
+// File order breaks ties, so the JSON order stays meaningful
+const sortProjects = (list: Project[], sort: ProjectSort) => {
+  const order = new Map(projects.map((p, i) => [p.id, i]));
+  const byFileOrder = (a: Project, b: Project) => order.get(a.id)! - order.get(b.id)!;
+
+  return list.slice().sort((a, b) => {
+    if (sort === 'name') return a.name.localeCompare(b.name);
+    if (sort === 'featured') return Number(!!b.featured) - Number(!!a.featured) || byFileOrder(a, b);
+    return monthIndex(b.date) - monthIndex(a.date) || byFileOrder(a, b);
+  });
+};
+
+// Filter state lives in the query string (?q=...&tech=python,cpp&sort=name) so views can be shared
+export const useProjectFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const query = searchParams.get('q') ?? '';
+  const techParam = searchParams.get('tech') ?? '';
+  const tech = useMemo(() => techParam.split(',').filter(Boolean), [techParam]);
+  const sortParam = searchParams.get('sort');
+  const sort: ProjectSort = isSort(sortParam) ? sortParam : DEFAULT_SORT;
+
+  const update = useCallback(
+    (changes: Record<string, string | null>) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          for (const [key, value] of Object.entries(changes)) {
+            if (value) next.set(key, value);
+            else next.delete(key);
+          }
+          return next;
+        },
+        // Typing shouldn't flood the history stack
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const setQuery = useCallback((value: string) => update({ q: value }), [update]);
+
+  const toggleTech = useCallback(
+    (id: string) => {
+      const next = tech.includes(id) ? tech.filter((t) => t !== id) : [...tech, id];
+      update({ tech: next.join(',') });
+    },
+    [tech, update]
+  );
+
+  const setSort = useCallback(
+    (value: ProjectSort) => update({ sort: value === DEFAULT_SORT ? null : value }),
+    [update]
+  );
+
+  const clear = useCallback(() => update({ q: null, tech: null }), [update]);
+
+  const filtered = useMemo(
+    () => sortProjects(projects.filter((p) => matchesQuery(p, query.trim()) && matchesTech(p, tech)), sort),
+    [query, tech, sort]
+  );
+
+  const matchingIds = useMemo(() => new Set(filtered.map((p) => p.id)), [filtered]);
+  const isFiltering = query.trim().length > 0 || tech.length > 0;
+
+  return { query, tech, sort, setQuery, toggleTech, setSort, clear, filtered, matchingIds, isFiltering };
+};
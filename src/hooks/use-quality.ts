@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { qualityStore } from '@/lib/quality';
+
+// Re-renders when the adaptive quality tier steps up or down
+export const useQuality = () => useSyncExternalStore(qualityStore.subscribe, qualityStore.get);
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { mulberry32, range } from '@/lib/random';
+import { aabbOverlap, candidatePairs, type AABB } from './broadphase';
+
+const randomBoxes = (seed: number, count: number): AABB[] => {
+  const rng = mulberry32(seed);
+  return Array.from({ length: count }, () => {
+    const x = range(rng, -500, 1500);
+    const y = range(rng, -500, 1500);
+    return { minX: x, minY: y, maxX: x + range(rng, 10, 160), maxY: y + range(rng, 10, 120) };
+  });
+};
+
+const bruteForce = (boxes: AABB[]) => {
+  const pairs: number[] = [];
+  for (let i = 0; i < boxes.length; i++) {
+    for (let j = i + 1; j < boxes.length; j++) if (aabbOverlap(boxes[i], boxes[j])) pairs.push(i, j);
+  }
+  return pairs;
+};
+
+describe('candidatePairs', () => {
+  it('finds exactly the overlapping pairs, once each, in (i, j) order', () => {
+    for (const seed of [1, 2, 3]) {
+      const boxes = randomBoxes(seed, 200);
+      expect(candidatePairs(boxes)).toEqual(bruteForce(boxes));
+    }
+  });
+});
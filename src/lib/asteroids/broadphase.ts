@@ -0,0 +1,84 @@
+// Uniform-grid broadphase: buckets bounding boxes into cells so only nearby
+// pairs reach the (much more expensive) SAT narrowphase.
+
+import type { Pt } from './geometry';
+
+export interface AABB {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const polygonAABB = (poly: Pt[]): AABB => {
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const p of poly) {
+    if (p.x < minX) minX = p.x;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.y > maxY) maxY = p.y;
+  }
+  return { minX, minY, maxX, maxY };
+};
+
+export const aabbOverlap = (a: AABB, b: AABB) =>
+  a.minX < b.maxX && b.minX < a.maxX && a.minY < b.maxY && b.minY < a.maxY;
+
+// Packs signed cell coords into one number key (fine for |coord| < 2^15)
+const cellKey = (cx: number, cy: number) => (cx + 32768) * 65536 + (cy + 32768);
+
+/**
+ * Index pairs [i0, j0, i1, j1, ...] (i < j) whose boxes overlap, in ascending (i, j) order
+ * so results don't depend on hash iteration order. Cells are sized to the largest box,
+ * so each box lands in at most 4 cells.
+ */
+export const candidatePairs = (boxes: AABB[]): number[] => {
+  const n = boxes.length;
+  if (n < 2) return [];
+
+  let cellSize = 1;
+  for (const b of boxes) cellSize = Math.max(cellSize, b.maxX - b.minX, b.maxY - b.minY);
+
+  const grid = new Map<number, number[]>();
+  for (let i = 0; i < n; i++) {
+    const b = boxes[i];
+    const x0 = Math.floor(b.minX / cellSize);
+    const x1 = Math.floor(b.maxX / cellSize);
+    const y0 = Math.floor(b.minY / cellSize);
+    const y1 = Math.floor(b.maxY / cellSize);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const key = cellKey(cx, cy);
+        const cell = grid.get(key);
+        if (cell) cell.push(i);
+        else grid.set(key, [i]);
+      }
+    }
+  }
+
+  // A pair sharing several cells is only reported by the one holding the top-left corner of
+  // the boxes' overlap, so nothing needs de-duplicating
+  const keys: number[] = [];
+  grid.forEach((cell, key) => {
+    for (let a = 0; a < cell.length; a++) {
+      for (let b = a + 1; b < cell.length; b++) {
+        const i = Math.min(cell[a], cell[b]);
+        const j = Math.max(cell[a], cell[b]);
+        const A = boxes[i];
+        const B = boxes[j];
+        if (!aabbOverlap(A, B)) continue;
+        const cx = Math.floor(Math.max(A.minX, B.minX) / cellSize);
+        const cy = Math.floor(Math.max(A.minY, B.minY) / cellSize);
+        if (cellKey(cx, cy) === key) keys.push(i * n + j);
+      }
+    }
+  });
+
+  keys.sort((a, b) => a - b);
+  const pairs: number[] = [];
+  for (const key of keys) pairs.push(Math.floor(key / n), key % n);
+  return pairs;
+};
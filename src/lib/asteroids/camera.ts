@@ -0,0 +1,71 @@
+// 2D camera over the asteroid world. Pure math: the field component owns the state,
+// the scene uses it to draw and hit-test.
+
+import type { Pt } from './geometry';
+
+export interface Camera {
+  x: number; // world point shown at the center of the viewport
+  y: number;
+  zoom: number; // screen px per world px
+}
+
+export interface Extent {
+  width: number;
+  height: number;
+}
+
+export const MAX_ZOOM = 2.5;
+
+// Zooming out stops once the whole world fits
+export const minZoom = (viewport: Extent, world: Extent) =>
+  Math.min(1, viewport.width / world.width, viewport.height / world.height);
+
+export const worldToScreen = (cam: Camera, viewport: Extent, p: Pt): Pt => ({
+  x: (p.x - cam.x) * cam.zoom + viewport.width / 2,
+  y: (p.y - cam.y) * cam.zoom + viewport.height / 2,
+});
+
+export const screenToWorld = (cam: Camera, viewport: Extent, p: Pt): Pt => ({
+  x: (p.x - viewport.width / 2) / cam.zoom + cam.x,
+  y: (p.y - viewport.height / 2) / cam.zoom + cam.y,
+});
+
+// Keeps the visible rectangle inside the world (centered on an axis where it's larger)
+export const clampCamera = (cam: Camera, viewport: Extent, world: Extent): Camera => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(minZoom(viewport, world), cam.zoom));
+  const halfW = viewport.width / (2 * zoom);
+  const halfH = viewport.height / (2 * zoom);
+  const clampAxis = (v: number, half: number, size: number) =>
+    half * 2 >= size ? size / 2 : Math.min(size - half, Math.max(half, v));
+  return { x: clampAxis(cam.x, halfW, world.width), y: clampAxis(cam.y, halfH, world.height), zoom };
+};
+
+// The world point under `anchor` (screen px) stays put while zooming
+export const zoomAt = (cam: Camera, viewport: Extent, world: Extent, anchor: Pt, factor: number): Camera => {
+  const before = screenToWorld(cam, viewport, anchor);
+  const zoom = Math.min(MAX_ZOOM, Math.max(minZoom(viewport, world), cam.zoom * factor));
+  const next = { ...cam, zoom };
+  const after = screenToWorld(next, viewport, anchor);
+  return clampCamera({ x: cam.x + before.x - after.x, y: cam.y + before.y - after.y, zoom }, viewport, world);
+};
+
+// Drag by (dx, dy) screen px: the world follows the pointer
+export const panBy = (cam: Camera, viewport: Extent, world: Extent, dx: number, dy: number): Camera =>
+  clampCamera({ ...cam, x: cam.x - dx / cam.zoom, y: cam.y - dy / cam.zoom }, viewport, world);
+
+// World rectangle currently on screen
+export const visibleRect = (cam: Camera, viewport: Extent) => ({
+  x: cam.x - viewport.width / (2 * cam.zoom),
+  y: cam.y - viewport.height / (2 * cam.zoom),
+  width: viewport.width / cam.zoom,
+  height: viewport.height / cam.zoom,
+});
+
+export const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+// Zoom interpolates in log space so the speed feels even in and out
+export const lerpCamera = (a: Camera, b: Camera, t: number): Camera => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  zoom: Math.exp(Math.log(a.zoom) + (Math.log(b.zoom) - Math.log(a.zoom)) * t),
+});
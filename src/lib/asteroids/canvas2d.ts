@@ -0,0 +1,158 @@
+// Canvas2D painter: gradient-shaded rocks with crater circles. The fallback when WebGL
+// isn't available, and the reference look the WebGL painter follows.
+
+import { bodyCollider, labelRect, type Body, type Bounds } from './physics';
+import { ACCENTS, ROCK, hslString } from './palette';
+import type { FieldAsteroid, FieldPainter, PaintInput } from './scene';
+
+type Ctx2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const DIMMED_ALPHA = 0.22;
+const FOCUS_RING_GAP = 10; // pixels outside the asteroid body
+
+const tracePath = (ctx: Ctx2D, vertices: Body['vertices']) => {
+  ctx.beginPath();
+  vertices.forEach((v, i) => (i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y)));
+  ctx.closePath();
+};
+
+const drawAsteroid = (ctx: Ctx2D, asteroid: FieldAsteroid, isHovered: boolean) => {
+  const { x, y, size, rotation, vertices, craters } = asteroid;
+  const accent = ACCENTS[asteroid.color] ?? ACCENTS.primary;
+  const baseColor = hslString(accent);
+
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate((rotation * Math.PI) / 180);
+
+  tracePath(ctx, vertices);
+
+  // Clip for inner details
+  ctx.save();
+  ctx.clip();
+
+  const gradient = ctx.createRadialGradient(-size * 0.18, -size * 0.2, 0, 0, 0, size * 0.7);
+  gradient.addColorStop(0, isHovered ? baseColor : hslString(ROCK.light));
+  gradient.addColorStop(0.55, isHovered ? hslString(accent, 0.65) : hslString(ROCK.mid));
+  gradient.addColorStop(1, hslString(ROCK.dark));
+
+  ctx.fillStyle = gradient;
+  ctx.fillRect(-size, -size, size * 2, size * 2);
+
+  // Craters
+  ctx.fillStyle = 'rgba(0,0,0,0.35)';
+  const crater = (cx: number, cy: number, rr: number) => {
+    ctx.beginPath();
+    ctx.arc(cx, cy, rr, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = 'rgba(255,255,255,0.05)';
+    ctx.beginPath();
+    ctx.arc(cx - rr * 0.25, cy - rr * 0.25, rr * 0.55, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = 'rgba(0,0,0,0.35)';
+  };
+
+  craters.forEach((c) => crater(size * c.x, size * c.y, size * c.r));
+
+  // Highlight
+  ctx.fillStyle = 'rgba(255,255,255,0.08)';
+  ctx.beginPath();
+  ctx.arc(-size * 0.18, -size * 0.18, size * 0.22, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.restore(); // unclip
+
+  // Border + glow
+  tracePath(ctx, vertices);
+
+  if (isHovered) {
+    ctx.shadowColor = baseColor;
+    ctx.shadowBlur = 18;
+    ctx.strokeStyle = baseColor;
+    ctx.lineWidth = 2;
+  } else {
+    ctx.shadowBlur = 0;
+    ctx.strokeStyle = hslString(ROCK.outline);
+    ctx.lineWidth = 1;
+  }
+
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawFocusRing = (ctx: Ctx2D, asteroid: FieldAsteroid, t: number) => {
+  ctx.save();
+  ctx.strokeStyle = hslString(ACCENTS.primary);
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 5]);
+  ctx.lineDashOffset = -t / 60; // slow marching dashes
+  ctx.beginPath();
+  ctx.arc(asteroid.x, asteroid.y, asteroid.r + FOCUS_RING_GAP, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawDebugHitbox = (ctx: Ctx2D, asteroid: FieldAsteroid, label: Bounds['label']) => {
+  const poly = bodyCollider(asteroid, label);
+  if (poly.length < 2) return;
+
+  ctx.save();
+  ctx.strokeStyle = 'rgba(0,255,255,0.35)';
+  ctx.lineWidth = 1;
+  tracePath(ctx, poly);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawDebugLabelRect = (ctx: Ctx2D, asteroid: FieldAsteroid, label: Bounds['label']) => {
+  const r = labelRect(asteroid, label);
+  ctx.save();
+  ctx.strokeStyle = 'rgba(255,170,0,0.5)';
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 3]);
+  ctx.strokeRect(r.x, r.y, r.w, r.h);
+  ctx.restore();
+};
+
+// null when the canvas can't provide a 2D context
+export const createCanvas2DPainter = (canvas: HTMLCanvasElement | OffscreenCanvas): FieldPainter | null => {
+  const ctx = canvas.getContext('2d') as Ctx2D | null;
+  if (!ctx) return null;
+
+  return {
+    kind: 'canvas2d',
+
+    setBodies() {
+      // Nothing to prepare; every frame is drawn from the body data directly
+    },
+
+    paint({ bodies, camera, size, view, isDimmed, debug, t }: PaintInput) {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      // World -> screen: center the camera point, then scale by zoom and DPR
+      const k = size.dpr * camera.zoom;
+      ctx.setTransform(
+        k,
+        0,
+        0,
+        k,
+        size.dpr * (size.width / 2 - camera.x * camera.zoom),
+        size.dpr * (size.height / 2 - camera.y * camera.zoom)
+      );
+
+      for (const a of bodies) {
+        const dimmed = isDimmed(a.id);
+        const highlighted = view.hovered === a.id || view.focused === a.id;
+        ctx.globalAlpha = dimmed ? DIMMED_ALPHA : 1;
+        drawAsteroid(ctx, a, !dimmed && highlighted);
+        if (!dimmed && view.focused === a.id) drawFocusRing(ctx, a, t);
+        if (debug.hitboxes) drawDebugHitbox(ctx, a, size.label);
+        if (debug.labelRects) drawDebugLabelRect(ctx, a, size.label);
+      }
+      ctx.globalAlpha = 1;
+    },
+  };
+};
@@ -0,0 +1,38 @@
+// Worker entry for the asteroid field: owns the OffscreenCanvas, steps the
+// simulation and draws a frame on each tick from the page, and answers hit tests.
+
+import type { FieldWorkerRequest, FieldWorkerResponse } from './renderer';
+import { createScene, type FieldScene } from './scene';
+
+// The app is compiled against the DOM lib, so describe the bits of the worker scope we use
+const scope = self as unknown as {
+  postMessage: (message: FieldWorkerResponse) => void;
+  onmessage: ((e: MessageEvent<FieldWorkerRequest>) => void) | null;
+};
+
+let scene: FieldScene | null = null;
+
+scope.onmessage = (e) => {
+  const msg = e.data;
+
+  if (msg.type === 'init') {
+    scene = createScene(msg.canvas, msg.options);
+    if (!scene) {
+      scope.postMessage({ type: 'unsupported' });
+    }
+    return;
+  }
+
+  if (!scene) return;
+  if (msg.type === 'tick') scope.postMessage({ type: 'frame', frame: scene.frame(msg.t) });
+  else if (msg.type === 'resize') scene.resize(msg.size);
+  else if (msg.type === 'bodies') scene.setBodies(msg.bodies);
+  else if (msg.type === 'view') scene.setView(msg.view);
+  else if (msg.type === 'camera') scene.setCamera(msg.camera);
+  else if (msg.type === 'hit') scope.postMessage({ type: 'hit', seq: msg.seq, id: scene.hitTest(msg.x, msg.y) });
+  else if (msg.type === 'grab') scene.grab(msg.id, msg.x, msg.y);
+  else if (msg.type === 'drag') scene.drag(msg.x, msg.y);
+  else if (msg.type === 'release') scene.release(msg.vx, msg.vy);
+  else if (msg.type === 'debug') scene.setDebug(msg.debug);
+  else if (msg.type === 'step') scene.stepOnce();
+};
@@ -0,0 +1,107 @@
+// Convex polygon helpers for the asteroid simulation. Plain math, no DOM.
+
+export type Pt = { x: number; y: number };
+export type MTV = { nx: number; ny: number; overlap: number }; // minimum translation vector, A -> B
+
+// ---------- Convex hull (Monotonic chain) ----------
+const cross = (o: Pt, a: Pt, b: Pt) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+export const convexHull = (pts: Pt[]): Pt[] => {
+  if (pts.length <= 3) return pts.slice();
+
+  const p = pts.slice().sort((a, b) => (a.x === b.x ? a.y - b.y : a.x - b.x));
+
+  const lower: Pt[] = [];
+  for (const pt of p) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], pt) <= 0) {
+      lower.pop();
+    }
+    lower.push(pt);
+  }
+
+  const upper: Pt[] = [];
+  for (let i = p.length - 1; i >= 0; i--) {
+    const pt = p[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], pt) <= 0) {
+      upper.pop();
+    }
+    upper.push(pt);
+  }
+
+  upper.pop();
+  lower.pop();
+  return lower.concat(upper);
+};
+
+export const centroid = (poly: Pt[]) => {
+  let x = 0,
+    y = 0;
+  for (const p of poly) {
+    x += p.x;
+    y += p.y;
+  }
+  return { x: x / poly.length, y: y / poly.length };
+};
+
+// ---------- SAT (convex polygon vs convex polygon) ----------
+const dot = (a: Pt, b: Pt) => a.x * b.x + a.y * b.y;
+
+const projectPoly = (poly: Pt[], axis: Pt) => {
+  let min = dot(poly[0], axis);
+  let max = min;
+  for (let i = 1; i < poly.length; i++) {
+    const d = dot(poly[i], axis);
+    if (d < min) min = d;
+    if (d > max) max = d;
+  }
+  return { min, max };
+};
+
+const normalize = (v: Pt) => {
+  const len = Math.hypot(v.x, v.y) || 1e-9;
+  return { x: v.x / len, y: v.y / len };
+};
+
+// null when the polygons are separated
+export const satMTV = (A: Pt[], B: Pt[]): MTV | null => {
+  let bestOverlap = Infinity;
+  let bestAxis: Pt | null = null;
+
+  const testAxesFrom = (poly: Pt[]) => {
+    for (let i = 0; i < poly.length; i++) {
+      const p1 = poly[i];
+      const p2 = poly[(i + 1) % poly.length];
+      const edge = { x: p2.x - p1.x, y: p2.y - p1.y };
+
+      // perpendicular axis
+      const axis = normalize({ x: -edge.y, y: edge.x });
+
+      const pA = projectPoly(A, axis);
+      const pB = projectPoly(B, axis);
+
+      const overlap = Math.min(pA.max, pB.max) - Math.max(pA.min, pB.min);
+      if (overlap <= 0) return { separated: true as const };
+
+      if (overlap < bestOverlap) {
+        bestOverlap = overlap;
+        bestAxis = axis;
+      }
+    }
+    return { separated: false as const };
+  };
+
+  const r1 = testAxesFrom(A);
+  if (r1.separated) return null;
+  const r2 = testAxesFrom(B);
+  if (r2.separated) return null;
+
+  if (!bestAxis) return null;
+
+  // Ensure axis points from A -> B (consistent MTV direction)
+  const ac = centroid(A);
+  const bc = centroid(B);
+  const dir = { x: bc.x - ac.x, y: bc.y - ac.y };
+  if (dot(dir, bestAxis) < 0) bestAxis = { x: -bestAxis.x, y: -bestAxis.y };
+
+  return { nx: bestAxis.x, ny: bestAxis.y, overlap: bestOverlap };
+};
@@ -0,0 +1,134 @@
+// Fills in whatever a project's `asteroid` block leaves out: size from how much the
+// project matters, colour from its category, and position from a packing pass.
+// Explicit values in projects.json always win.
+
+import { monthIndex } from '@/data/period';
+import type { AsteroidColor, Project, ProjectCategory } from '@/data/schema';
+import { aabbOverlap, type AABB } from './broadphase';
+import type { Extent } from './camera';
+import type { Pt } from './geometry';
+import { LABEL_GAP, type Bounds } from './physics';
+
+const MIN_SIZE = 55;
+const MAX_SIZE = 95;
+const RECENCY_MONTHS = 24; // older than this gets no recency boost
+const DEFAULT_COLOR: AsteroidColor = 'primary';
+
+const CATEGORY_COLORS: Record<ProjectCategory, AsteroidColor> = {
+  web: 'primary',
+  hardware: 'secondary',
+  data: 'accent',
+  mobile: 'hologram',
+};
+
+// ---------- Size + colour ----------
+
+export interface AsteroidStyle {
+  size: number;
+  color: AsteroidColor;
+}
+
+// 0..1: being featured counts most, then impact bullets, then recency
+const projectWeight = (project: Project, newestMonth: number) => {
+  const featured = project.featured ? 0.5 : 0;
+  const impact = (Math.min(project.impact.length, 5) / 5) * 0.3;
+  const age = newestMonth - monthIndex(project.date);
+  const recency = Math.max(0, 1 - age / RECENCY_MONTHS) * 0.2;
+  return featured + impact + recency;
+};
+
+export const asteroidStyles = (projects: Project[]): Map<string, AsteroidStyle> => {
+  // Recency is relative to the newest project, so the field doesn't shrink as time passes
+  const newest = Math.max(...projects.map((p) => monthIndex(p.date)));
+
+  return new Map(
+    projects.map((p) => [
+      p.id,
+      {
+        size: p.asteroid?.size ?? Math.round(MIN_SIZE + (MAX_SIZE - MIN_SIZE) * projectWeight(p, newest)),
+        color: p.asteroid?.color ?? (p.category ? CATEGORY_COLORS[p.category] : DEFAULT_COLOR),
+      },
+    ])
+  );
+};
+
+// ---------- Placement ----------
+
+export interface Area extends Extent {
+  x: number;
+  y: number;
+}
+
+export interface PackItem {
+  id: string;
+  r: number;
+  x?: number; // pinned world position on that axis
+  y?: number;
+}
+
+const MARGIN = 24; // px kept clear around each body + label
+const SPIRAL_STEP = 28; // px between successive candidate rings
+const MAX_CANDIDATES = 4000;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// What a body at (x, y) covers, label included (same footprint as its collider)
+const footprint = (x: number, y: number, r: number, label: Bounds['label']): AABB => {
+  const halfW = Math.max(r, label.w / 2) + MARGIN;
+  return { minX: x - halfW, maxX: x + halfW, minY: y - r - MARGIN, maxY: y + r + LABEL_GAP + label.h + MARGIN };
+};
+
+/**
+ * Greedy packing: bodies pinned on both axes go first, then the rest largest-first along
+ * a sunflower spiral out from the middle of `view` (stretched to its aspect), each taking
+ * the first spot that doesn't overlap anything placed so far. Spots inside `view` are
+ * preferred so the opening shot shows everything; past that, anywhere inside `world`.
+ * `phase` rotates the spiral so a different seed gives a different arrangement.
+ */
+export const packAsteroids = (
+  items: PackItem[],
+  view: Area,
+  world: Extent,
+  label: Bounds['label'],
+  phase = 0
+): Map<string, Pt> => {
+  const placed: AABB[] = [];
+  const out = new Map<string, Pt>();
+  const cx = view.x + view.width / 2;
+  const cy = view.y + view.height / 2;
+  const aspect = view.width / Math.max(1, view.height);
+
+  const within = (b: AABB, a: Area) =>
+    b.minX >= a.x && b.minY >= a.y && b.maxX <= a.x + a.width && b.maxY <= a.y + a.height;
+  const regions: Area[] = [view, { x: 0, y: 0, ...world }];
+
+  const pinned = items.filter((it) => it.x !== undefined && it.y !== undefined);
+  const free = items.filter((it) => it.x === undefined || it.y === undefined).sort((a, b) => b.r - a.r);
+
+  for (const it of pinned) {
+    out.set(it.id, { x: it.x!, y: it.y! });
+    placed.push(footprint(it.x!, it.y!, it.r, label));
+  }
+
+  for (const it of free) {
+    let spot: Pt | null = null;
+
+    for (const region of regions) {
+      for (let k = 0; k < MAX_CANDIDATES && !spot; k++) {
+        const dist = SPIRAL_STEP * Math.sqrt(k);
+        const angle = phase + k * GOLDEN_ANGLE;
+        const x = it.x ?? cx + Math.cos(angle) * dist * Math.sqrt(aspect);
+        const y = it.y ?? cy + (Math.sin(angle) * dist) / Math.sqrt(aspect);
+        const box = footprint(x, y, it.r, label);
+        if (within(box, region) && !placed.some((p) => aabbOverlap(p, box))) spot = { x, y };
+      }
+      if (spot) break;
+    }
+
+    if (!spot) spot = { x: it.x ?? cx, y: it.y ?? cy }; // nothing fits: overlap is left for the solver
+
+    out.set(it.id, spot);
+    placed.push(footprint(spot.x, spot.y, it.r, label));
+  }
+
+  return out;
+};
@@ -0,0 +1,33 @@
+// Asteroid colours as HSL triples, shared by the Canvas2D and WebGL painters.
+
+import type { AsteroidColor } from '@/data/schema';
+
+export type Hsl = readonly [number, number, number]; // degrees, %, %
+
+export const ACCENTS: Record<AsteroidColor | 'primary', Hsl> = {
+  primary: [185, 100, 50],
+  secondary: [270, 60, 50],
+  accent: [25, 100, 55],
+  hologram: [185, 100, 70],
+};
+
+// Unlit rock: lit side, mid-tone, shadow side, and the resting outline
+export const ROCK = {
+  light: [220, 18, 28] as Hsl,
+  mid: [220, 14, 18] as Hsl,
+  dark: [220, 10, 10] as Hsl,
+  outline: [200, 30, 35] as Hsl,
+};
+
+export const hslString = ([h, s, l]: Hsl, alpha = 1) =>
+  alpha === 1 ? `hsl(${h}, ${s}%, ${l}%)` : `hsla(${h}, ${s}%, ${l}%, ${alpha})`;
+
+// 0..1 channels, for shader uniforms
+export const hslToRgb = ([h, s, l]: Hsl): [number, number, number] => {
+  const sat = s / 100;
+  const lig = l / 100;
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = sat * Math.min(lig, 1 - lig);
+  const f = (n: number) => lig - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [f(0), f(8), f(4)];
+};
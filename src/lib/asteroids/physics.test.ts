@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { mulberry32, range, type Rng } from '@/lib/random';
+import { satMTV, type Pt } from './geometry';
+import { bodyCollider, LABEL_GAP, settle, step, type Body, type Bounds, type PhysicsState } from './physics';
+
+// Roughly the cinematic field on a large screen, crowded well past the real project count
+const BODY_COUNT = 150;
+const BOUNDS: Bounds = { width: 2600, height: 2000, label: { w: 150, h: 18 } };
+const PADDING = 40; // clampToBounds' wall padding
+
+// Same outline recipe as AsteroidField, so the colliders have realistic vertex counts
+const outline = (size: number, rng: Rng): Pt[] => {
+  const seed = rng() * Math.PI * 2;
+  return Array.from({ length: 18 }, (_, i) => {
+    const angle = (i / 18) * Math.PI * 2;
+    const wobble = 0.92 + Math.sin(angle * 2 + seed) * 0.06 + Math.cos(angle * 3.2 + seed * 0.7) * 0.05;
+    return { x: Math.cos(angle) * (size / 2) * wobble, y: Math.sin(angle) * (size / 2) * wobble };
+  });
+};
+
+const createState = (seed: number): PhysicsState => {
+  const rng = mulberry32(seed);
+  const bodies = Array.from({ length: BODY_COUNT }, (_, i): Body => {
+    const size = range(rng, 55, 95);
+    return {
+      id: `body-${i}`,
+      x: range(rng, 0, BOUNDS.width),
+      y: range(rng, 0, BOUNDS.height),
+      r: size / 2,
+      rotation: range(rng, 0, 360),
+      driftX: range(rng, -0.4, 0.4),
+      driftY: range(rng, -0.4, 0.4),
+      rotationSpeed: range(rng, -0.3, 0.3),
+      vertices: outline(size, rng),
+    };
+  });
+  return settle({ bodies }, BOUNDS);
+};
+
+// Deepest penetration between any two colliders, 0 when nothing overlaps
+const maxOverlap = (bodies: Body[]) => {
+  const polys = bodies.map((b) => bodyCollider(b, BOUNDS.label));
+  let worst = 0;
+  for (let i = 0; i < polys.length; i++) {
+    for (let j = i + 1; j < polys.length; j++) {
+      const mtv = satMTV(polys[i], polys[j]);
+      if (mtv) worst = Math.max(worst, mtv.overlap);
+    }
+  }
+  return worst;
+};
+
+const outOfBounds = (bodies: Body[]) =>
+  bodies.filter((b) => {
+    const extentX = Math.max(b.r, BOUNDS.label.w / 2);
+    const bottom = b.y + b.r + LABEL_GAP + BOUNDS.label.h;
+    return (
+      b.x - extentX < PADDING - 1 ||
+      b.x + extentX > BOUNDS.width - PADDING + 1 ||
+      b.y - b.r < PADDING - 1 ||
+      bottom > BOUNDS.height - PADDING + 1
+    );
+  });
+
+describe('step', () => {
+  it('is deterministic for the same seed', () => {
+    const a = createState(7);
+    const b = createState(7);
+    for (let k = 0; k < 120; k++) {
+      step(a, 1, BOUNDS);
+      step(b, 1, BOUNDS);
+    }
+    expect(a.bodies).toEqual(b.bodies);
+  });
+
+  it('keeps bodies inside the bounds and separates overlaps', () => {
+    const state = createState(42);
+    expect(maxOverlap(state.bodies)).toBeLessThan(1);
+
+    for (let k = 0; k < 600; k++) {
+      step(state, 1, BOUNDS);
+      expect(outOfBounds(state.bodies)).toEqual([]);
+    }
+    // Contacts take a frame or two to separate, so allow the last step's fresh ones a little depth
+    expect(maxOverlap(state.bodies)).toBeLessThan(2);
+  });
+
+  it('sends only nearby pairs to the narrowphase', () => {
+    const state = createState(1234);
+    const iterations = 2; // step()'s default
+    let worst = 0;
+    for (let k = 0; k < 600; k++) {
+      step(state, 1, BOUNDS, iterations);
+      worst = Math.max(worst, state.pairs!.candidates);
+    }
+    // SAT tests per step: brute force would run all n² / 2 pairs on every iteration;
+    // the grid should keep it to a small multiple of n
+    expect(worst).toBeLessThan(BODY_COUNT * iterations);
+  });
+});
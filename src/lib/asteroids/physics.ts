@@ -0,0 +1,284 @@
+// Headless asteroid simulation: drift, label-aware SAT collisions and wall bounces.
+// No DOM access; the caller owns the clock and measures the viewport.
+
+import { candidatePairs, polygonAABB } from './broadphase';
+import { convexHull, satMTV, type Pt } from './geometry';
+
+export const LABEL_GAP = 18; // pixels between an asteroid and its label
+
+export interface Body {
+  id: string;
+  x: number;
+  y: number;
+  r: number; // body collision radius
+  rotation: number; // degrees
+  driftX: number; // px per 60fps frame
+  driftY: number;
+  rotationSpeed: number; // degrees per 60fps frame
+  vertices: Pt[]; // outline relative to (x, y), unrotated
+}
+
+// World extent; the camera decides which part of it is on screen
+export interface Bounds {
+  width: number;
+  height: number;
+  label: { w: number; h: number }; // label box below each body; part of its collider
+}
+
+// A body held by the pointer: it follows (x, y) and shoves others without being pushed back
+export interface Grab {
+  id: string;
+  x: number; // target position, world px
+  y: number;
+}
+
+// Collision work done by the last step: broadphase candidates and pairs that actually overlapped
+export interface PairStats {
+  candidates: number;
+  contacts: number;
+}
+
+export interface PhysicsState<B extends Body = Body> {
+  bodies: B[];
+  grab?: Grab | null;
+  pairs?: PairStats; // written by step()
+}
+
+export const MAX_THROW = 24; // px per 60fps frame
+const CRUISE_SPEED = 0.4; // thrown bodies slow back down to about the ambient drift
+const THROW_DRAG = 0.97; // per 60fps frame, only above cruise speed
+
+// ---------- Colliders ----------
+
+export const labelRect = (b: Body, label: Bounds['label']) => ({
+  x: b.x - label.w / 2,
+  y: b.y + b.r + LABEL_GAP,
+  w: label.w,
+  h: label.h,
+});
+
+// One convex collider covering both rock + label (stable)
+export const bodyCollider = (b: Body, label: Bounds['label']): Pt[] => {
+  const rad = (b.rotation * Math.PI) / 180;
+  const c = Math.cos(rad);
+  const s = Math.sin(rad);
+
+  const rock = b.vertices.map((v) => ({
+    x: b.x + v.x * c - v.y * s,
+    y: b.y + v.x * s + v.y * c,
+  }));
+
+  const r = labelRect(b, label);
+  return convexHull([
+    ...rock,
+    { x: r.x, y: r.y },
+    { x: r.x + r.w, y: r.y },
+    { x: r.x + r.w, y: r.y + r.h },
+    { x: r.x, y: r.y + r.h },
+  ]);
+};
+
+// ---------- Wall bounds ----------
+
+export const clampToBounds = (b: Body, bounds: Bounds) => {
+  const REST = 0.98;
+  const padding = 40;
+
+  const extentX = Math.max(b.r, bounds.label.w / 2);
+  const extentYTop = b.r;
+  const extentYBottom = b.r + LABEL_GAP + bounds.label.h;
+
+  const minX = padding + extentX;
+  const maxX = bounds.width - padding - extentX;
+  const minY = padding + extentYTop;
+  const maxY = Math.max(minY + 50, bounds.height - padding - extentYBottom);
+
+  const EPS = 0.35;
+
+  if (b.x < minX) {
+    const pen = minX - b.x;
+    b.x = minX + pen + EPS;
+    b.driftX = Math.abs(b.driftX) * REST;
+  } else if (b.x > maxX) {
+    const pen = b.x - maxX;
+    b.x = maxX - pen - EPS;
+    b.driftX = -Math.abs(b.driftX) * REST;
+  }
+
+  if (b.y < minY) {
+    const pen = minY - b.y;
+    b.y = minY + pen + EPS;
+    b.driftY = Math.abs(b.driftY) * REST;
+  } else if (b.y > maxY) {
+    const pen = b.y - maxY;
+    b.y = maxY - pen - EPS;
+    b.driftY = -Math.abs(b.driftY) * REST;
+  }
+};
+
+// ---------- Overlap solver (stable) ----------
+
+const translate = (poly: Pt[], dx: number, dy: number) => {
+  for (const p of poly) {
+    p.x += dx;
+    p.y += dy;
+  }
+};
+
+// `pinnedId` (the held body) has infinite mass: the other body takes the whole push and impulse
+export const resolveOverlaps = (
+  bodies: Body[],
+  bounds: Bounds,
+  iterations: number,
+  pinnedId: string | null = null
+): PairStats => {
+  const stats: PairStats = { candidates: 0, contacts: 0 };
+  const SEP = 0.25; // extra spacing to avoid re-stick
+  const REST = 0.97; // restitution: 0 = sticky, 1 = perfectly elastic
+  const FRICTION = 0.01; // small, to reduce endless sliding jitter
+
+  // World polygons are built once per call: rotation doesn't change inside the solver, so a
+  // body that's pushed or clamped just has its cached copy translated to match
+  const polys = bodies.map((b) => bodyCollider(b, bounds.label));
+  const boxes = polys.map(polygonAABB);
+  const placedX = bodies.map((b) => b.x); // where each cached polygon currently sits
+  const placedY = bodies.map((b) => b.y);
+  const staleBox = new Uint8Array(bodies.length);
+
+  const sync = (i: number) => {
+    const dx = bodies[i].x - placedX[i];
+    const dy = bodies[i].y - placedY[i];
+    if (!dx && !dy) return;
+    translate(polys[i], dx, dy);
+    placedX[i] = bodies[i].x;
+    placedY[i] = bodies[i].y;
+    staleBox[i] = 1;
+  };
+
+  for (let it = 0; it < iterations; it++) {
+    for (let i = 0; i < bodies.length; i++) {
+      sync(i);
+      if (staleBox[i]) boxes[i] = polygonAABB(polys[i]);
+      staleBox[i] = 0;
+    }
+    const pairs = candidatePairs(boxes);
+    stats.candidates += pairs.length / 2;
+
+    for (let k = 0; k < pairs.length; k += 2) {
+      const i = pairs[k];
+      const j = pairs[k + 1];
+      const A = bodies[i];
+      const B = bodies[j];
+
+      const mtv = satMTV(polys[i], polys[j]);
+      if (!mtv) continue;
+      stats.contacts += 1;
+
+      const { nx, ny } = mtv;
+
+      // Equal masses split everything; a pinned body hands its share to the other
+      const shareA = A.id === pinnedId ? 0 : B.id === pinnedId ? 1 : 0.5;
+      const shareB = 1 - shareA;
+
+      // positional correction
+      const push = mtv.overlap + SEP;
+      A.x -= nx * push * shareA;
+      A.y -= ny * push * shareA;
+      B.x += nx * push * shareB;
+      B.y += ny * push * shareB;
+      sync(i);
+      sync(j);
+
+      // bounce + light friction (keeps energy instead of killing drift)
+      const rvx = B.driftX - A.driftX;
+      const rvy = B.driftY - A.driftY;
+
+      // normal component (closing speed)
+      const relN = rvx * nx + rvy * ny;
+      if (relN < 0) {
+        const jn = -(1 + REST) * relN;
+
+        A.driftX -= nx * jn * shareA;
+        A.driftY -= ny * jn * shareA;
+        B.driftX += nx * jn * shareB;
+        B.driftY += ny * jn * shareB;
+
+        const tx = -ny;
+        const ty = nx;
+        const relT = rvx * tx + rvy * ty;
+        const jt = -relT * FRICTION;
+
+        A.driftX -= tx * jt * shareA;
+        A.driftY -= ty * jt * shareA;
+        B.driftX += tx * jt * shareB;
+        B.driftY += ty * jt * shareB;
+      }
+    }
+
+    // Clamp only once per iteration (not inside the pair loop); the held body goes where it's put
+    bodies.forEach((b) => b.id !== pinnedId && clampToBounds(b, bounds));
+  }
+
+  return stats;
+};
+
+// ---------- Step ----------
+
+// Advances the simulation in place and returns the same state.
+// dt is in 60fps frames (1 = 16.67ms); the same inputs always produce the same output.
+// Fewer overlap iterations are cheaper but let contacts take a few more frames to separate.
+export const step = <S extends PhysicsState>(state: S, dt: number, bounds: Bounds, iterations = 2): S => {
+  const grab = state.grab ?? null;
+
+  for (const b of state.bodies) {
+    b.rotation += b.rotationSpeed * dt;
+
+    // A held body moves to the pointer; its drift becomes the pointer's velocity so
+    // collisions hand that momentum on
+    if (grab && b.id === grab.id) {
+      b.driftX = (grab.x - b.x) / dt;
+      b.driftY = (grab.y - b.y) / dt;
+      b.x = grab.x;
+      b.y = grab.y;
+      continue;
+    }
+
+    const speed = Math.hypot(b.driftX, b.driftY);
+    if (speed > CRUISE_SPEED) {
+      const k = Math.max(CRUISE_SPEED / speed, Math.pow(THROW_DRAG, dt));
+      b.driftX *= k;
+      b.driftY *= k;
+    }
+
+    b.x += b.driftX * dt;
+    b.y += b.driftY * dt;
+  }
+
+  // Small iteration count per frame; overlaps settle over a few frames
+  const pinnedId = grab ? grab.id : null;
+  state.pairs = resolveOverlaps(state.bodies, bounds, iterations, pinnedId);
+  state.bodies.forEach((b) => b.id !== pinnedId && clampToBounds(b, bounds));
+  return state;
+};
+
+// Lets go of the held body with the given velocity (px per 60fps frame), capped at MAX_THROW
+export const release = <S extends PhysicsState>(state: S, vx: number, vy: number): S => {
+  const body = state.grab ? state.bodies.find((b) => b.id === state.grab!.id) : undefined;
+  state.grab = null;
+  if (!body) return state;
+
+  const speed = Math.hypot(vx, vy);
+  const k = speed > MAX_THROW ? MAX_THROW / speed : 1;
+  body.driftX = vx * k;
+  body.driftY = vy * k;
+  return state;
+};
+
+// Pushes freshly spawned bodies apart without advancing time, so nothing starts interlocked
+export const settle = <S extends PhysicsState>(state: S, bounds: Bounds, rounds = 60): S => {
+  for (let k = 0; k < rounds; k++) {
+    resolveOverlaps(state.bodies, bounds, 2);
+    state.bodies.forEach((b) => clampToBounds(b, bounds));
+  }
+  return state;
+};
@@ -0,0 +1,232 @@
+// Runs the asteroid scene in a worker through OffscreenCanvas when the browser
+// supports it, and on the main thread otherwise. Callers only see FieldRenderer.
+// Either way frames are paced by the page's shared ticker.
+
+import type { DebugFlags } from '@/lib/debug';
+import { LAYER, ticker } from '@/lib/ticker';
+import type { Camera } from './camera';
+import { createScene, type FieldAsteroid, type FieldFrame, type FieldOptions, type FieldSize, type FieldView } from './scene';
+
+// ---------- Worker protocol ----------
+
+export type FieldWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; options: FieldOptions }
+  | { type: 'resize'; size: FieldSize }
+  | { type: 'bodies'; bodies: FieldAsteroid[] }
+  | { type: 'view'; view: FieldView }
+  | { type: 'camera'; camera: Camera }
+  | { type: 'hit'; seq: number; x: number; y: number }
+  | { type: 'grab'; id: string; x: number; y: number }
+  | { type: 'drag'; x: number; y: number }
+  | { type: 'release'; vx: number; vy: number }
+  | { type: 'debug'; debug: DebugFlags }
+  | { type: 'step' }
+  | { type: 'tick'; t: number }; // draw a frame; sent by the page's ticker
+
+export type FieldWorkerResponse =
+  | { type: 'frame'; frame: FieldFrame }
+  | { type: 'hit'; seq: number; id: string | null }
+  | { type: 'unsupported' };
+
+// ---------- Renderer ----------
+
+export interface FieldRenderer {
+  readonly mode: 'worker' | 'main';
+  resize(size: FieldSize): void;
+  setBodies(bodies: FieldAsteroid[]): void;
+  setView(view: FieldView): void;
+  setCamera(camera: Camera): void;
+  hitTest(x: number, y: number): Promise<string | null>; // project id under the point
+  grab(id: string, x: number, y: number): void; // screen px, like hitTest
+  drag(x: number, y: number): void;
+  release(vx: number, vy: number): void; // world px per 60fps frame
+  setDebug(debug: DebugFlags): void;
+  stepOnce(): void; // advance one frame while paused
+  destroy(): void;
+}
+
+export interface FieldRendererOptions extends FieldOptions {
+  onFrame: (frame: FieldFrame) => void;
+}
+
+type Backend = Omit<FieldRenderer, 'mode'>;
+
+const supportsOffscreen = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+const createCanvas = (host: HTMLElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.className = 'absolute inset-0 w-full h-full';
+  canvas.setAttribute('aria-hidden', 'true');
+  host.prepend(canvas);
+  return canvas;
+};
+
+const createMainThreadBackend = (canvas: HTMLCanvasElement, options: FieldRendererOptions): Backend | null => {
+  const scene = createScene(canvas, options);
+  if (!scene) return null;
+
+  const removeLayer = ticker.add((t) => options.onFrame(scene.frame(t)), LAYER.scene);
+
+  return {
+    resize: scene.resize,
+    setBodies: scene.setBodies,
+    setView: scene.setView,
+    setCamera: scene.setCamera,
+    hitTest: (x, y) => Promise.resolve(scene.hitTest(x, y)),
+    grab: scene.grab,
+    drag: scene.drag,
+    release: scene.release,
+    setDebug: scene.setDebug,
+    stepOnce: scene.stepOnce,
+    destroy: removeLayer,
+  };
+};
+
+const createWorkerBackend = (
+  canvas: HTMLCanvasElement,
+  options: FieldRendererOptions,
+  onUnsupported: () => void
+): Backend => {
+  // Transfer first: a canvas that's been handed off can't be drawn on here anymore,
+  // so a failure after this point has to fall back to a new canvas
+  const offscreen = canvas.transferControlToOffscreen();
+  const worker = new Worker(new URL('./field.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, (id: string | null) => void>();
+  let seq = 0;
+  let drawing = false; // a tick is out and its frame hasn't come back yet
+
+  const post = (message: FieldWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  worker.onmessage = (e: MessageEvent<FieldWorkerResponse>) => {
+    const msg = e.data;
+    if (msg.type === 'frame') {
+      drawing = false;
+      options.onFrame(msg.frame);
+    } else if (msg.type === 'hit') {
+      pending.get(msg.seq)?.(msg.id);
+      pending.delete(msg.seq);
+    } else onUnsupported();
+  };
+  worker.onerror = () => onUnsupported();
+
+  const { reducedMotion, renderer, touch } = options; // onFrame can't be cloned into the worker
+  post({ type: 'init', canvas: offscreen, options: { reducedMotion, renderer, touch } }, [offscreen]);
+
+  // A worker that falls behind skips ticks rather than queueing them
+  const removeLayer = ticker.add((t) => {
+    if (drawing) return;
+    drawing = true;
+    post({ type: 'tick', t });
+  }, LAYER.scene);
+
+  return {
+    resize: (size) => post({ type: 'resize', size }),
+    setBodies: (bodies) => post({ type: 'bodies', bodies }),
+    setView: (view) => post({ type: 'view', view }),
+    setCamera: (camera) => post({ type: 'camera', camera }),
+    hitTest: (x, y) =>
+      new Promise((resolve) => {
+        seq += 1;
+        pending.set(seq, resolve);
+        post({ type: 'hit', seq, x, y });
+      }),
+    grab: (id, x, y) => post({ type: 'grab', id, x, y }),
+    drag: (x, y) => post({ type: 'drag', x, y }),
+    release: (vx, vy) => post({ type: 'release', vx, vy }),
+    setDebug: (debug) => post({ type: 'debug', debug }),
+    stepOnce: () => post({ type: 'step' }),
+    destroy: () => {
+      removeLayer();
+      worker.terminate();
+      pending.forEach((resolve) => resolve(null));
+      pending.clear();
+    },
+  };
+};
+
+/**
+ * Mounts a canvas inside `host` and starts drawing. Prefers the worker; if the worker
+ * can't start (no OffscreenCanvas 2D, script error) it swaps in a fresh canvas on the main
+ * thread and replays the last size, bodies, view, camera and debug flags so callers never notice.
+ */
+export const createFieldRenderer = (host: HTMLElement, options: FieldRendererOptions): FieldRenderer => {
+  let canvas = createCanvas(host);
+  let mode: FieldRenderer['mode'] = 'main';
+  let backend: Backend | null = null;
+  let destroyed = false;
+  const last: { size?: FieldSize; bodies?: FieldAsteroid[]; view?: FieldView; camera?: Camera; debug?: DebugFlags } = {};
+
+  const fallBack = () => {
+    if (destroyed || mode === 'main') return;
+    backend?.destroy();
+    canvas.remove();
+    canvas = createCanvas(host);
+    mode = 'main';
+    backend = createMainThreadBackend(canvas, options);
+    if (last.size) backend?.resize(last.size);
+    if (last.bodies) backend?.setBodies(last.bodies);
+    if (last.view) backend?.setView(last.view);
+    if (last.camera) backend?.setCamera(last.camera);
+    if (last.debug) backend?.setDebug(last.debug);
+  };
+
+  if (supportsOffscreen()) {
+    try {
+      mode = 'worker';
+      backend = createWorkerBackend(canvas, options, fallBack);
+    } catch {
+      fallBack();
+    }
+  } else {
+    backend = createMainThreadBackend(canvas, options);
+  }
+
+  return {
+    get mode() {
+      return mode;
+    },
+    resize(size) {
+      last.size = size;
+      backend?.resize(size);
+    },
+    setBodies(bodies) {
+      last.bodies = bodies;
+      backend?.setBodies(bodies);
+    },
+    setView(view) {
+      last.view = view;
+      backend?.setView(view);
+    },
+    setCamera(camera) {
+      last.camera = camera;
+      backend?.setCamera(camera);
+    },
+    hitTest(x, y) {
+      return backend ? backend.hitTest(x, y) : Promise.resolve(null);
+    },
+    grab(id, x, y) {
+      backend?.grab(id, x, y);
+    },
+    drag(x, y) {
+      backend?.drag(x, y);
+    },
+    release(vx, vy) {
+      backend?.release(vx, vy);
+    },
+    setDebug(debug) {
+      last.debug = debug;
+      backend?.setDebug(debug);
+    },
+    stepOnce() {
+      backend?.stepOnce();
+    },
+    destroy() {
+      destroyed = true;
+      backend?.destroy();
+      canvas.remove();
+    },
+  };
+};
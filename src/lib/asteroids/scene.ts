@@ -0,0 +1,221 @@
+// Simulation + drawing for the asteroid field. Works with an on-page <canvas> or an
+// OffscreenCanvas inside a worker, so it never touches the DOM. Drawing goes through a
+// painter: WebGL when the context supports it, Canvas2D otherwise.
+
+import type { AsteroidColor } from '@/data/schema';
+import type { DebugFlags, SceneStats } from '@/lib/debug';
+import { screenToWorld, type Camera, type Extent } from './camera';
+import { createCanvas2DPainter } from './canvas2d';
+import { release, step, type Body, type Bounds, type PhysicsState } from './physics';
+import { createWebGLPainter, webglSupported } from './webgl';
+
+// Simulation body plus what the renderer needs. Plain data, so it can be posted to a worker.
+export interface FieldAsteroid extends Body {
+  color: AsteroidColor;
+  size: number;
+  craters: { x: number; y: number; r: number }[]; // fractions of size
+}
+
+export interface FieldSize {
+  width: number; // viewport, CSS pixels
+  height: number;
+  dpr: number;
+  label: Bounds['label'];
+  world: Extent; // simulated area, world pixels
+}
+
+export interface FieldView {
+  hovered: string | null;
+  focused: string | null;
+  matching: string[] | null; // null = no filter; others are dimmed and not hittable
+}
+
+// 'auto' = WebGL when supported, Canvas2D otherwise; 'canvas2d' skips WebGL entirely
+export type FieldRendererKind = 'auto' | 'canvas2d';
+
+export interface FieldOptions {
+  reducedMotion: boolean;
+  renderer: FieldRendererKind;
+  touch: boolean; // finger input: wider hit targets, lighter collision solving
+}
+
+// World-space snapshot of one body, for labels and the minimap
+export interface BodySnapshot {
+  id: string;
+  x: number;
+  y: number;
+  r: number;
+}
+
+// What one drawn frame looked like; the camera is the one it was drawn with
+export interface FieldFrame {
+  bodies: BodySnapshot[];
+  camera: Camera;
+  stats: SceneStats;
+}
+
+const HIT_SLOP = 12; // pixels of forgiveness around the body
+const TOUCH_HIT_SLOP = 24; // a fingertip covers far more than a cursor
+const ITERATIONS = 2; // overlap passes per step
+const TOUCH_ITERATIONS = 1; // phones and tablets trade a little settling time for frame budget
+
+// ---------- Painters ----------
+
+// Everything a painter needs for one frame; bodies are already stepped
+export interface PaintInput {
+  bodies: FieldAsteroid[];
+  camera: Camera;
+  size: FieldSize;
+  view: FieldView;
+  isDimmed: (id: string) => boolean;
+  debug: DebugFlags;
+  t: number; // animation clock for the focus ring, ms; 0 under reduced motion
+}
+
+export interface FieldPainter {
+  readonly kind: 'webgl' | 'canvas2d';
+  setBodies(bodies: FieldAsteroid[]): void; // rebuild any per-body GPU data
+  paint(input: PaintInput): void;
+}
+
+// A canvas gets one context type for life, so WebGL is probed on a throwaway canvas first:
+// a failed WebGL attempt on the real one would rule out the Canvas2D fallback
+const createPainter = (canvas: HTMLCanvasElement | OffscreenCanvas, kind: FieldRendererKind) =>
+  (kind === 'auto' && webglSupported() ? createWebGLPainter(canvas) : null) ?? createCanvas2DPainter(canvas);
+
+// ---------- Scene ----------
+
+// null when the canvas provides neither context (e.g. no OffscreenCanvas 2D support)
+export const createScene = (canvas: HTMLCanvasElement | OffscreenCanvas, options: FieldOptions) => {
+  const painter = createPainter(canvas, options.renderer);
+  if (!painter) return null;
+
+  const state: PhysicsState<FieldAsteroid> = { bodies: [], grab: null };
+  let grabOffset = { x: 0, y: 0 }; // body center minus the grabbed point, so it doesn't jump
+  let size: FieldSize = { width: 0, height: 0, dpr: 1, label: { w: 0, h: 0 }, world: { width: 0, height: 0 } };
+  let camera: Camera = { x: 0, y: 0, zoom: 1 };
+  let view: FieldView = { hovered: null, focused: null, matching: null };
+  let matching: Set<string> | null = null;
+  let lastT: number | null = null;
+  let debug: DebugFlags = { hitboxes: false, labelRects: false, paused: false };
+  let pendingSteps = 0; // single steps requested while paused
+  const hitSlop = options.touch ? TOUCH_HIT_SLOP : HIT_SLOP;
+  const iterations = options.touch ? TOUCH_ITERATIONS : ITERATIONS;
+
+  const isDimmed = (id: string) => !!matching && !matching.has(id);
+
+  return {
+    setBodies(next: FieldAsteroid[]) {
+      state.bodies = next;
+      state.grab = null;
+      painter.setBodies(next);
+    },
+
+    resize(next: FieldSize) {
+      const prev = size;
+      size = next;
+
+      canvas.width = Math.floor(next.width * next.dpr);
+      canvas.height = Math.floor(next.height * next.dpr);
+
+      // Scale positions only if width changed (ignore iOS bar height)
+      if (prev.world.width > 0 && prev.world.height > 0 && Math.abs(next.width - prev.width) >= 2) {
+        const sx = next.world.width / prev.world.width;
+        const sy = next.world.height / prev.world.height;
+        state.bodies.forEach((a) => {
+          a.x *= sx;
+          a.y *= sy;
+        });
+      }
+    },
+
+    setCamera(next: Camera) {
+      camera = next;
+    },
+
+    setDebug(next: DebugFlags) {
+      debug = next;
+    },
+
+    // Advances one frame while paused
+    stepOnce() {
+      pendingSteps += 1;
+    },
+
+    setView(next: FieldView) {
+      view = next;
+      matching = next.matching ? new Set(next.matching) : null;
+    },
+
+    // x, y in screen (CSS) pixels relative to the field
+    hitTest(x: number, y: number): string | null {
+      const p = screenToWorld(camera, size, { x, y });
+      for (const a of state.bodies) {
+        if (isDimmed(a.id)) continue;
+        if (Math.hypot(p.x - a.x, p.y - a.y) < a.r + hitSlop / camera.zoom) return a.id;
+      }
+      return null;
+    },
+
+    // Picks up `id` at screen point (x, y); following drag() calls move it
+    grab(id: string, x: number, y: number) {
+      const body = state.bodies.find((a) => a.id === id);
+      if (!body) return;
+      const p = screenToWorld(camera, size, { x, y });
+      grabOffset = { x: body.x - p.x, y: body.y - p.y };
+      state.grab = { id, x: body.x, y: body.y };
+    },
+
+    drag(x: number, y: number) {
+      if (!state.grab) return;
+      const p = screenToWorld(camera, size, { x, y });
+      state.grab.x = p.x + grabOffset.x;
+      state.grab.y = p.y + grabOffset.y;
+    },
+
+    // vx, vy in world px per 60fps frame
+    release(vx: number, vy: number) {
+      release(state, vx, vy);
+    },
+
+    // Advances and draws one frame; t is a rAF timestamp
+    frame(t: number): FieldFrame {
+      const dtMs = lastT === null ? 16.67 : t - lastT;
+      lastT = t;
+      const dt = Math.min(2.0, Math.max(0.5, dtMs / 16.67)); // clamp dt multiplier
+
+      const t0 = performance.now();
+      const bounds: Bounds = { width: size.world.width, height: size.world.height, label: size.label };
+      const stepping = !debug.paused || pendingSteps > 0;
+      if (debug.paused && pendingSteps > 0) pendingSteps -= 1;
+      if (!options.reducedMotion && stepping) step(state, debug.paused ? 1 : dt, bounds, iterations);
+      const t1 = performance.now();
+
+      painter.paint({
+        bodies: state.bodies,
+        camera,
+        size,
+        view,
+        isDimmed,
+        debug,
+        t: options.reducedMotion ? 0 : t,
+      });
+      const t2 = performance.now();
+
+      return {
+        bodies: state.bodies.map((a) => ({ id: a.id, x: a.x, y: a.y, r: a.r })),
+        camera,
+        stats: {
+          frameMs: t2 - t0,
+          layers: { physics: t1 - t0, asteroids: t2 - t1 },
+          pairs: state.pairs,
+          dpr: size.dpr,
+          backing: { width: canvas.width, height: canvas.height },
+          renderer: painter.kind,
+        },
+      };
+    },
+  };
+};
+
+export type FieldScene = NonNullable<ReturnType<typeof createScene>>;
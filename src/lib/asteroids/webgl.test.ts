@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FieldAsteroid, FieldOptions, FieldSize, PaintInput } from './scene';
+
+// No GPU (or DOM) under vitest, so both context types are stubbed: every method is a
+// recorded no-op, create* calls return handles, and WebGL enum names map to numbers.
+// Enough to run the painters' full code paths and count what they would have drawn.
+type Calls = Record<string, number>;
+
+const stubContext = (overrides: Record<string, (...args: unknown[]) => unknown>, calls: Calls) => {
+  const props: Record<string, unknown> = {};
+  return new Proxy(props, {
+    get(_, name) {
+      if (typeof name !== 'string') return undefined;
+      if (name in props) return props[name];
+      if (/^[A-Z0-9_]+$/.test(name)) return name.length; // any distinct-enough number
+      return (...args: unknown[]) => {
+        calls[name] = (calls[name] ?? 0) + 1;
+        if (name in overrides) return overrides[name](...args);
+        if (name.startsWith('create')) return { addColorStop: () => {} };
+        return undefined;
+      };
+    },
+    set(_, name, value) {
+      props[name as string] = value;
+      return true;
+    },
+  });
+};
+
+const stubWebGL = (calls: Calls, { compiles = true } = {}) =>
+  stubContext(
+    {
+      getShaderParameter: () => compiles,
+      getProgramParameter: () => true,
+      getAttribLocation: () => 0,
+      getUniformLocation: () => ({}),
+      getExtension: () => null,
+    },
+    calls
+  );
+
+const stub2D = (calls: Calls) => stubContext({ measureText: () => ({ width: 0 }) }, calls);
+
+interface StubCanvasOptions {
+  webgl?: boolean;
+  compiles?: boolean;
+  calls?: Calls;
+}
+
+const stubCanvas = ({ webgl = true, compiles = true, calls = {} }: StubCanvasOptions = {}) =>
+  ({
+    width: 800,
+    height: 600,
+    getContext: (type: string) =>
+      type === 'webgl' ? (webgl ? stubWebGL(calls, { compiles }) : null) : type === '2d' ? stub2D(calls) : null,
+    addEventListener: () => {},
+  }) as unknown as OffscreenCanvas;
+
+// webglSupported() probes an OffscreenCanvas, so the global is what decides it
+const stubOffscreenCanvas = (options: StubCanvasOptions) =>
+  vi.stubGlobal(
+    'OffscreenCanvas',
+    class {
+      constructor() {
+        return stubCanvas(options);
+      }
+    }
+  );
+
+const asteroid = (id: string, x: number, y: number): FieldAsteroid => ({
+  id,
+  x,
+  y,
+  r: 40,
+  size: 80,
+  rotation: 30,
+  driftX: 0,
+  driftY: 0,
+  rotationSpeed: 0,
+  color: 'primary',
+  vertices: Array.from({ length: 12 }, (_, i) => ({
+    x: Math.cos((i / 12) * Math.PI * 2) * 40,
+    y: Math.sin((i / 12) * Math.PI * 2) * 40,
+  })),
+  craters: [{ x: 0.1, y: -0.1, r: 0.15 }],
+});
+
+const BODIES = [asteroid('a', 200, 200), asteroid('b', 400, 300), asteroid('c', 600, 200)];
+
+const SIZE: FieldSize = {
+  width: 800,
+  height: 600,
+  dpr: 1,
+  label: { w: 150, h: 18 },
+  world: { width: 800, height: 600 },
+};
+
+const paintInput = (overrides: Partial<PaintInput> = {}): PaintInput => ({
+  bodies: BODIES,
+  camera: { x: 400, y: 300, zoom: 1 },
+  size: SIZE,
+  view: { hovered: 'a', focused: 'b', matching: null },
+  isDimmed: (id) => id === 'c',
+  debug: { hitboxes: true, labelRects: true, paused: false },
+  t: 1000,
+  ...overrides,
+});
+
+const OPTIONS: FieldOptions = { reducedMotion: false, renderer: 'auto', touch: false };
+
+// webglSupported() caches its answer per module instance
+beforeEach(() => vi.resetModules());
+afterEach(() => vi.unstubAllGlobals());
+
+describe('createWebGLPainter', () => {
+  it('returns null without a WebGL context', async () => {
+    const { createWebGLPainter } = await import('./webgl');
+    expect(createWebGLPainter(stubCanvas({ webgl: false }))).toBeNull();
+  });
+
+  it('returns null when a shader fails to compile', async () => {
+    const { createWebGLPainter } = await import('./webgl');
+    expect(createWebGLPainter(stubCanvas({ compiles: false }))).toBeNull();
+  });
+
+  it('uploads one mesh per body and draws every rock', async () => {
+    const { createWebGLPainter } = await import('./webgl');
+    const calls: Calls = {};
+    const painter = createWebGLPainter(stubCanvas({ calls }))!;
+    expect(painter.kind).toBe('webgl');
+
+    painter.setBodies(BODIES);
+    expect(calls.texImage2D).toBe(BODIES.length); // one normal map each
+
+    expect(() => painter.paint(paintInput())).not.toThrow();
+    expect(calls.drawElements).toBe(BODIES.length);
+    expect(calls.drawArrays).toBeGreaterThan(0); // glow, outlines, focus ring, debug boxes
+  });
+
+  it('skips bodies it has no mesh for', async () => {
+    const { createWebGLPainter } = await import('./webgl');
+    const calls: Calls = {};
+    const painter = createWebGLPainter(stubCanvas({ calls }))!;
+    painter.setBodies(BODIES.slice(0, 1));
+    painter.paint(paintInput());
+    expect(calls.drawElements).toBe(1);
+  });
+});
+
+describe('webglSupported', () => {
+  it('is false with no canvas to probe', async () => {
+    const { webglSupported } = await import('./webgl');
+    expect(webglSupported()).toBe(false);
+  });
+
+  it('is true when every program links', async () => {
+    stubOffscreenCanvas({});
+    const { webglSupported } = await import('./webgl');
+    expect(webglSupported()).toBe(true);
+  });
+
+  it('is false when a program fails to build', async () => {
+    stubOffscreenCanvas({ compiles: false });
+    const { webglSupported } = await import('./webgl');
+    expect(webglSupported()).toBe(false);
+  });
+});
+
+describe('createScene', () => {
+  const renderer = async (canvas: OffscreenCanvas, options = OPTIONS) => {
+    const { createScene } = await import('./scene');
+    const scene = createScene(canvas, options)!;
+    scene.resize(SIZE);
+    scene.setBodies(BODIES);
+    return scene.frame(0).stats.renderer;
+  };
+
+  it('uses WebGL when it is supported', async () => {
+    stubOffscreenCanvas({});
+    expect(await renderer(stubCanvas())).toBe('webgl');
+  });
+
+  it('falls back to Canvas2D without WebGL', async () => {
+    stubOffscreenCanvas({ webgl: false });
+    expect(await renderer(stubCanvas({ webgl: false }))).toBe('canvas2d');
+  });
+
+  it('falls back to Canvas2D when the shaders do not build', async () => {
+    stubOffscreenCanvas({ compiles: false });
+    expect(await renderer(stubCanvas({ compiles: false }))).toBe('canvas2d');
+  });
+
+  it('skips WebGL when asked for Canvas2D', async () => {
+    stubOffscreenCanvas({});
+    expect(await renderer(stubCanvas(), { ...OPTIONS, renderer: 'canvas2d' })).toBe('canvas2d');
+  });
+});
@@ -0,0 +1,511 @@
+// WebGL painter: each rock's vertex ring is extruded into a low dome mesh, lit by one
+// directional light, with craters baked into a per-rock normal map. Hovered rocks get an
+// additive glow. Plain WebGL 1 with no extensions, so software rasterizers (SwiftShader,
+// llvmpipe) run it too and it can be exercised without a GPU.
+
+import { bodyCollider, labelRect, type Bounds } from './physics';
+import { ACCENTS, ROCK, hslToRgb } from './palette';
+import type { FieldAsteroid, FieldPainter, PaintInput } from './scene';
+
+type GL = WebGLRenderingContext;
+
+const DIMMED_ALPHA = 0.22;
+const FOCUS_RING_GAP = 10; // world px outside the asteroid body
+const RINGS = 4; // extrusion levels between the outline and the apex
+const DOME_HEIGHT = 0.55; // apex height, in body radii
+const NORMAL_MAP_SIZE = 64;
+const GLOW_SCALE = 1.7; // glow radius, in body radii
+
+const normalize3 = ([x, y, z]: number[]): [number, number, number] => {
+  const len = Math.hypot(x, y, z) || 1;
+  return [x / len, y / len, z / len];
+};
+
+const LIGHT = normalize3([-0.45, -0.55, 0.7]); // from the upper left, toward the viewer (y down)
+
+// ---------- Shaders ----------
+
+// Shared world -> clip transform; the camera is (x, y, zoom), the viewport in CSS px
+const WORLD_TO_CLIP = `
+uniform vec3 u_camera;
+uniform vec2 u_viewport;
+vec4 worldToClip(vec2 world) {
+  vec2 clip = ((world - u_camera.xy) * u_camera.z + u_viewport * 0.5) / u_viewport * 2.0 - 1.0;
+  return vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const ROCK_VERT = `
+attribute vec3 a_position; // local xy + height
+attribute vec3 a_normal;
+uniform vec2 u_center;
+uniform float u_rotation;
+uniform float u_size;
+varying vec3 v_normal;
+varying vec2 v_uv;
+${WORLD_TO_CLIP}
+void main() {
+  float c = cos(u_rotation);
+  float s = sin(u_rotation);
+  vec2 world = u_center + vec2(a_position.x * c - a_position.y * s, a_position.x * s + a_position.y * c);
+  gl_Position = worldToClip(world);
+  v_uv = a_position.xy / u_size + 0.5;
+  v_normal = a_normal;
+}`;
+
+const ROCK_FRAG = `
+precision mediump float;
+uniform sampler2D u_normalMap;
+uniform float u_rotation;
+uniform vec3 u_light;
+uniform vec3 u_albedo;
+uniform vec3 u_accent;
+uniform float u_hover;
+uniform float u_alpha;
+varying vec3 v_normal;
+varying vec2 v_uv;
+void main() {
+  // The map is in the rock's local frame (planar projection), so perturb before rotating
+  vec3 bump = texture2D(u_normalMap, v_uv).xyz * 2.0 - 1.0;
+  vec3 n = normalize(normalize(v_normal) + vec3(bump.xy, 0.0));
+  float c = cos(u_rotation);
+  float s = sin(u_rotation);
+  n.xy = vec2(n.x * c - n.y * s, n.x * s + n.y * c);
+
+  float diffuse = max(dot(n, u_light), 0.0);
+  vec3 base = mix(u_albedo, u_accent, u_hover * 0.7);
+  vec3 color = base * (0.3 + 1.1 * diffuse);
+  gl_FragColor = vec4(color * u_alpha, u_alpha);
+}`;
+
+const LINE_VERT = `
+attribute vec2 a_position; // world px
+${WORLD_TO_CLIP}
+void main() {
+  gl_Position = worldToClip(a_position);
+}`;
+
+const LINE_FRAG = `
+precision mediump float;
+uniform vec4 u_color; // premultiplied
+void main() {
+  gl_FragColor = u_color;
+}`;
+
+const GLOW_VERT = `
+attribute vec2 a_corner; // -1..1 quad
+uniform vec2 u_center;
+uniform float u_radius;
+varying vec2 v_corner;
+${WORLD_TO_CLIP}
+void main() {
+  v_corner = a_corner;
+  gl_Position = worldToClip(u_center + a_corner * u_radius);
+}`;
+
+const GLOW_FRAG = `
+precision mediump float;
+uniform vec3 u_color;
+varying vec2 v_corner;
+void main() {
+  float f = 1.0 - clamp(length(v_corner), 0.0, 1.0);
+  f = f * f * 0.75;
+  gl_FragColor = vec4(u_color * f, f);
+}`;
+
+// ---------- GL helpers ----------
+
+const compile = (gl: GL, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+};
+
+const link = (gl: GL, vert: string, frag: string) => {
+  const vs = compile(gl, gl.VERTEX_SHADER, vert);
+  const fs = compile(gl, gl.FRAGMENT_SHADER, frag);
+  const program = gl.createProgram();
+  if (!vs || !fs || !program) return null;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+};
+
+interface ProgramInfo {
+  program: WebGLProgram;
+  attrib: (name: string) => number;
+  uniform: (name: string) => WebGLUniformLocation | null;
+}
+
+const createProgramInfo = (gl: GL, vert: string, frag: string): ProgramInfo | null => {
+  const program = link(gl, vert, frag);
+  if (!program) return null;
+  const uniforms = new Map<string, WebGLUniformLocation | null>();
+  return {
+    program,
+    attrib: (name) => gl.getAttribLocation(program, name),
+    uniform: (name) => {
+      if (!uniforms.has(name)) uniforms.set(name, gl.getUniformLocation(program, name));
+      return uniforms.get(name)!;
+    },
+  };
+};
+
+const getWebGL = (canvas: HTMLCanvasElement | OffscreenCanvas) =>
+  // No failIfMajorPerformanceCaveat: software renderers are allowed on purpose
+  canvas.getContext('webgl', { alpha: true, premultipliedAlpha: true, antialias: true }) as GL | null;
+
+let supported: boolean | null = null;
+
+// Compiles every program on a throwaway canvas, once per thread
+export const webglSupported = () => {
+  if (supported !== null) return supported;
+  supported = false;
+  try {
+    const probe =
+      typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(1, 1)
+        : typeof document !== 'undefined'
+          ? document.createElement('canvas')
+          : null;
+    const gl = probe && getWebGL(probe);
+    if (gl) {
+      supported = [
+        [ROCK_VERT, ROCK_FRAG],
+        [LINE_VERT, LINE_FRAG],
+        [GLOW_VERT, GLOW_FRAG],
+      ].every(([v, f]) => !!link(gl, v, f));
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+  } catch {
+    supported = false;
+  }
+  return supported;
+};
+
+// ---------- Meshes ----------
+
+// Dome over the outline: RINGS shrinking copies of the ring rising to an apex.
+// Interleaved [x, y, z, nx, ny, nz]; normals point toward the viewer (+z).
+const buildRockMesh = (a: FieldAsteroid) => {
+  const ring = a.vertices;
+  const n = ring.length;
+  const height = a.r * DOME_HEIGHT;
+
+  const positions: number[][] = [];
+  for (let k = 0; k < RINGS; k++) {
+    const phi = (k / RINGS) * (Math.PI / 2);
+    for (const v of ring) positions.push([v.x * Math.cos(phi), v.y * Math.cos(phi), Math.sin(phi) * height]);
+  }
+  const apex = positions.length;
+  positions.push([0, 0, height]);
+
+  const indices: number[] = [];
+  for (let k = 0; k < RINGS - 1; k++) {
+    for (let i = 0; i < n; i++) {
+      const a0 = k * n + i;
+      const a1 = k * n + ((i + 1) % n);
+      const b0 = (k + 1) * n + i;
+      const b1 = (k + 1) * n + ((i + 1) % n);
+      indices.push(a0, a1, b1, a0, b1, b0);
+    }
+  }
+  for (let i = 0; i < n; i++) indices.push((RINGS - 1) * n + i, (RINGS - 1) * n + ((i + 1) % n), apex);
+
+  // Smooth normals: sum of adjacent face normals, each flipped to face the viewer
+  const normals = positions.map(() => [0, 0, 0]);
+  for (let t = 0; t < indices.length; t += 3) {
+    const [p, q, r] = [positions[indices[t]], positions[indices[t + 1]], positions[indices[t + 2]]];
+    const u = [q[0] - p[0], q[1] - p[1], q[2] - p[2]];
+    const w = [r[0] - p[0], r[1] - p[1], r[2] - p[2]];
+    let face = [u[1] * w[2] - u[2] * w[1], u[2] * w[0] - u[0] * w[2], u[0] * w[1] - u[1] * w[0]];
+    if (face[2] < 0) face = face.map((c) => -c);
+    for (const idx of [indices[t], indices[t + 1], indices[t + 2]]) {
+      normals[idx][0] += face[0];
+      normals[idx][1] += face[1];
+      normals[idx][2] += face[2];
+    }
+  }
+
+  const data = new Float32Array(positions.length * 6);
+  positions.forEach((p, i) => data.set([...p, ...normalize3(normals[i])], i * 6));
+  return { data, indices: new Uint16Array(indices) };
+};
+
+// Crater heightfield -> tangent-space normals (RGB), in the rock's local frame
+const buildNormalMap = (a: FieldAsteroid) => {
+  const S = NORMAL_MAP_SIZE;
+  const height = (x: number, y: number) => {
+    let h = 0;
+    for (const c of a.craters) {
+      const d = Math.hypot(x - c.x, y - c.y) / c.r;
+      if (d < 1) h -= (1 - d * d) * c.r * 0.6; // bowl
+      h += Math.exp(-(((d - 1) / 0.18) ** 2)) * c.r * 0.2; // raised rim
+    }
+    return h;
+  };
+
+  const pixels = new Uint8Array(S * S * 4);
+  const e = 1 / S;
+  for (let j = 0; j < S; j++) {
+    for (let i = 0; i < S; i++) {
+      // Texel centre in size units, matching v_uv = local / size + 0.5
+      const x = (i + 0.5) / S - 0.5;
+      const y = (j + 0.5) / S - 0.5;
+      const dx = (height(x + e, y) - height(x - e, y)) / (2 * e);
+      const dy = (height(x, y + e) - height(x, y - e)) / (2 * e);
+      const [nx, ny, nz] = normalize3([-dx, -dy, 1]);
+      const o = (j * S + i) * 4;
+      pixels[o] = Math.round((nx * 0.5 + 0.5) * 255);
+      pixels[o + 1] = Math.round((ny * 0.5 + 0.5) * 255);
+      pixels[o + 2] = Math.round((nz * 0.5 + 0.5) * 255);
+      pixels[o + 3] = 255;
+    }
+  }
+  return pixels;
+};
+
+interface RockGPU {
+  vbo: WebGLBuffer;
+  ibo: WebGLBuffer;
+  count: number;
+  normalMap: WebGLTexture;
+}
+
+// ---------- Painter ----------
+
+// null when the canvas can't provide WebGL or a program fails to build
+export const createWebGLPainter = (canvas: HTMLCanvasElement | OffscreenCanvas): FieldPainter | null => {
+  const gl = getWebGL(canvas);
+  if (!gl) return null;
+
+  let rockProgram: ProgramInfo | null = null;
+  let lineProgram: ProgramInfo | null = null;
+  let glowProgram: ProgramInfo | null = null;
+  let lineBuffer: WebGLBuffer | null = null;
+  let quadBuffer: WebGLBuffer | null = null;
+  let rocks = new Map<string, RockGPU>();
+  let bodies: FieldAsteroid[] = [];
+  let lost = false;
+
+  const init = () => {
+    rockProgram = createProgramInfo(gl, ROCK_VERT, ROCK_FRAG);
+    lineProgram = createProgramInfo(gl, LINE_VERT, LINE_FRAG);
+    glowProgram = createProgramInfo(gl, GLOW_VERT, GLOW_FRAG);
+    lineBuffer = gl.createBuffer();
+    quadBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    return !!(rockProgram && lineProgram && glowProgram && lineBuffer && quadBuffer);
+  };
+
+  const uploadRocks = () => {
+    rocks.forEach((r) => {
+      gl.deleteBuffer(r.vbo);
+      gl.deleteBuffer(r.ibo);
+      gl.deleteTexture(r.normalMap);
+    });
+    rocks = new Map();
+
+    for (const a of bodies) {
+      const mesh = buildRockMesh(a);
+      const vbo = gl.createBuffer();
+      const ibo = gl.createBuffer();
+      const normalMap = gl.createTexture();
+      if (!vbo || !ibo || !normalMap) continue;
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, vbo);
+      gl.bufferData(gl.ARRAY_BUFFER, mesh.data, gl.STATIC_DRAW);
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, ibo);
+      gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, mesh.indices, gl.STATIC_DRAW);
+
+      gl.bindTexture(gl.TEXTURE_2D, normalMap);
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA,
+        NORMAL_MAP_SIZE,
+        NORMAL_MAP_SIZE,
+        0,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        buildNormalMap(a)
+      );
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+      rocks.set(a.id, { vbo, ibo, count: mesh.indices.length, normalMap });
+    }
+  };
+
+  if (!init()) return null;
+
+  // The browser can drop the context (GPU reset, too many contexts); rebuild when it's back
+  canvas.addEventListener('webglcontextlost', (e) => {
+    e.preventDefault();
+    lost = true;
+  });
+  canvas.addEventListener('webglcontextrestored', () => {
+    lost = !init();
+    if (!lost) uploadRocks();
+  });
+
+  // ---------- Draw calls ----------
+
+  const setCameraUniforms = (p: ProgramInfo, input: PaintInput) => {
+    gl.uniform3f(p.uniform('u_camera'), input.camera.x, input.camera.y, input.camera.zoom);
+    gl.uniform2f(p.uniform('u_viewport'), input.size.width, input.size.height);
+  };
+
+  // `mode` is LINE_LOOP for outlines or LINES for dashes; colour is straight (not premultiplied) RGBA
+  const drawLines = (points: number[], mode: number, [r, g, b, a]: number[], input: PaintInput) => {
+    const p = lineProgram!;
+    gl.useProgram(p.program);
+    setCameraUniforms(p, input);
+    gl.uniform4f(p.uniform('u_color'), r * a, g * a, b * a, a);
+    gl.bindBuffer(gl.ARRAY_BUFFER, lineBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(points), gl.DYNAMIC_DRAW);
+    const loc = p.attrib('a_position');
+    gl.enableVertexAttribArray(loc);
+    gl.vertexAttribPointer(loc, 2, gl.FLOAT, false, 0, 0);
+    gl.drawArrays(mode, 0, points.length / 2);
+  };
+
+  const drawGlow = (a: FieldAsteroid, rgb: number[], input: PaintInput) => {
+    const p = glowProgram!;
+    gl.useProgram(p.program);
+    setCameraUniforms(p, input);
+    gl.uniform2f(p.uniform('u_center'), a.x, a.y);
+    gl.uniform1f(p.uniform('u_radius'), a.r * GLOW_SCALE);
+    gl.uniform3f(p.uniform('u_color'), rgb[0], rgb[1], rgb[2]);
+    gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+    const loc = p.attrib('a_corner');
+    gl.enableVertexAttribArray(loc);
+    gl.vertexAttribPointer(loc, 2, gl.FLOAT, false, 0, 0);
+    gl.blendFunc(gl.ONE, gl.ONE); // additive
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  };
+
+  const drawRock = (
+    a: FieldAsteroid,
+    gpu: RockGPU,
+    accent: number[],
+    hover: boolean,
+    alpha: number,
+    input: PaintInput
+  ) => {
+    const p = rockProgram!;
+    gl.useProgram(p.program);
+    setCameraUniforms(p, input);
+    gl.uniform2f(p.uniform('u_center'), a.x, a.y);
+    gl.uniform1f(p.uniform('u_rotation'), (a.rotation * Math.PI) / 180);
+    gl.uniform1f(p.uniform('u_size'), a.size);
+    gl.uniform3fv(p.uniform('u_light'), LIGHT);
+    gl.uniform3fv(p.uniform('u_albedo'), hslToRgb(ROCK.light));
+    gl.uniform3fv(p.uniform('u_accent'), accent);
+    gl.uniform1f(p.uniform('u_hover'), hover ? 1 : 0);
+    gl.uniform1f(p.uniform('u_alpha'), alpha);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, gpu.normalMap);
+    gl.uniform1i(p.uniform('u_normalMap'), 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, gpu.vbo);
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, gpu.ibo);
+    const pos = p.attrib('a_position');
+    const normal = p.attrib('a_normal');
+    gl.enableVertexAttribArray(pos);
+    gl.vertexAttribPointer(pos, 3, gl.FLOAT, false, 24, 0);
+    gl.enableVertexAttribArray(normal);
+    gl.vertexAttribPointer(normal, 3, gl.FLOAT, false, 24, 12);
+    gl.drawElements(gl.TRIANGLES, gpu.count, gl.UNSIGNED_SHORT, 0);
+    gl.disableVertexAttribArray(normal);
+  };
+
+  const outline = (a: FieldAsteroid) => {
+    const rad = (a.rotation * Math.PI) / 180;
+    const c = Math.cos(rad);
+    const s = Math.sin(rad);
+    return a.vertices.flatMap((v) => [a.x + v.x * c - v.y * s, a.y + v.x * s + v.y * c]);
+  };
+
+  // Dashes as separate segments, marching with t like the Canvas2D ring
+  const focusRing = (a: FieldAsteroid, t: number) => {
+    const radius = a.r + FOCUS_RING_GAP;
+    const dash = 6 / radius;
+    const period = 11 / radius;
+    const offset = ((t / 60) % 11) / radius;
+    const points: number[] = [];
+    for (let th = offset; th < Math.PI * 2 + offset; th += period) {
+      points.push(a.x + Math.cos(th) * radius, a.y + Math.sin(th) * radius);
+      points.push(a.x + Math.cos(th + dash) * radius, a.y + Math.sin(th + dash) * radius);
+    }
+    return points;
+  };
+
+  const labelOutline = (a: FieldAsteroid, label: Bounds['label']) => {
+    const r = labelRect(a, label);
+    return [r.x, r.y, r.x + r.w, r.y, r.x + r.w, r.y + r.h, r.x, r.y + r.h];
+  };
+
+  return {
+    kind: 'webgl',
+
+    setBodies(next) {
+      bodies = next;
+      if (!lost) uploadRocks();
+    },
+
+    paint(input) {
+      if (lost) return;
+      const { view, isDimmed, debug, size, t } = input;
+
+      gl.viewport(0, 0, canvas.width, canvas.height);
+      gl.clearColor(0, 0, 0, 0);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+      gl.enable(gl.BLEND);
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+      for (const a of input.bodies) {
+        const gpu = rocks.get(a.id);
+        if (!gpu) continue;
+
+        const dimmed = isDimmed(a.id);
+        const hover = !dimmed && (view.hovered === a.id || view.focused === a.id);
+        const alpha = dimmed ? DIMMED_ALPHA : 1;
+        const accent = hslToRgb(ACCENTS[a.color] ?? ACCENTS.primary);
+
+        if (hover) drawGlow(a, accent, input);
+        drawRock(a, gpu, accent, hover, alpha, input);
+        drawLines(outline(a), gl.LINE_LOOP, hover ? [...accent, 1] : [...hslToRgb(ROCK.outline), alpha], input);
+        if (!dimmed && view.focused === a.id) {
+          drawLines(focusRing(a, t), gl.LINES, [...hslToRgb(ACCENTS.primary), 1], input);
+        }
+        if (debug.hitboxes) {
+          drawLines(
+            bodyCollider(a, size.label).flatMap((p) => [p.x, p.y]),
+            gl.LINE_LOOP,
+            [0, 1, 1, 0.35],
+            input
+          );
+        }
+        if (debug.labelRects) drawLines(labelOutline(a, size.label), gl.LINE_LOOP, [1, 0.67, 0, 0.5], input);
+      }
+    },
+  };
+};
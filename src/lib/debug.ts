@@ -0,0 +1,86 @@
+// Runtime diagnostics for the canvas scenes. Off unless the URL has `?debug=1` or the
+// chord (Shift+Alt+D) is pressed; scenes only report frames while it's on.
+// No React here: scenes read it per frame, the overlay subscribes through useDebug().
+
+export interface DebugFlags {
+  hitboxes: boolean; // asteroid collider outlines
+  labelRects: boolean; // label boxes that are part of each collider
+  paused: boolean; // freeze the asteroid physics (drawing continues)
+}
+
+export interface DebugState {
+  enabled: boolean;
+  flags: DebugFlags;
+  steps: number; // bumped by each single-step request
+}
+
+export interface SceneStats {
+  frameMs: number; // work done for this frame, not the interval between frames
+  layers: Record<string, number>; // ms per layer, in draw order
+  pairs?: { candidates: number; contacts: number }; // broadphase pairs and actual overlaps
+  dpr: number;
+  backing: { width: number; height: number }; // canvas backing store, device px
+  renderer?: string; // which drawing backend produced the frame
+  quality?: string; // adaptive quality tier the frame was drawn at
+}
+
+export type SceneName = 'starfield' | 'asteroids';
+
+// Shift+Alt+D; matched on the physical key since Alt changes `key` on macOS
+export const isDebugChord = (e: KeyboardEvent) =>
+  e.code === 'KeyD' && e.shiftKey && e.altKey && !e.ctrlKey && !e.metaKey;
+
+const fromUrl = () => {
+  // HashRouter keeps the app's query string inside the hash
+  const hashQuery = window.location.hash.split('?')[1] ?? '';
+  return [window.location.search, hashQuery].some((q) => new URLSearchParams(q).get('debug') === '1');
+};
+
+// ---------- State ----------
+
+let state: DebugState = {
+  enabled: typeof window !== 'undefined' && fromUrl(),
+  flags: { hitboxes: false, labelRects: false, paused: false },
+  steps: 0,
+};
+
+const listeners = new Set<() => void>();
+
+const update = (next: Partial<DebugState>) => {
+  state = { ...state, ...next };
+  listeners.forEach((fn) => fn());
+};
+
+export const debugStore = {
+  get: () => state,
+  subscribe(fn: () => void) {
+    listeners.add(fn);
+    return () => {
+      listeners.delete(fn);
+    };
+  },
+  toggle: () => update({ enabled: !state.enabled }),
+  setFlag: (flag: keyof DebugFlags, value: boolean) => update({ flags: { ...state.flags, [flag]: value } }),
+  step: () => update({ steps: state.steps + 1 }),
+};
+
+// ---------- Frame samples ----------
+
+const HISTORY = 120; // frames kept per scene for the graphs
+
+export interface FrameSample {
+  at: number; // performance.now() when the frame was reported
+  stats: SceneStats;
+}
+
+const samples = new Map<SceneName, FrameSample[]>();
+
+export const reportFrame = (scene: SceneName, stats: SceneStats) => {
+  if (!state.enabled) return;
+  const list = samples.get(scene) ?? [];
+  list.push({ at: performance.now(), stats });
+  if (list.length > HISTORY) list.shift();
+  samples.set(scene, list);
+};
+
+export const frameSamples = (scene: SceneName): readonly FrameSample[] => samples.get(scene) ?? [];
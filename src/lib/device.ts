@@ -0,0 +1,169 @@
+// What the current device can comfortably do, in one place. Canvas scenes read it to pick
+// between the cinematic and lightweight paths; components subscribe through useDevice().
+// Everything here is a hint: browsers that don't expose a signal just leave its default.
+
+import { LAYER, ticker } from './ticker';
+
+export type PointerKind = 'fine' | 'coarse' | 'none'; // primary input
+export type ViewportClass = 'phone' | 'tablet' | 'desktop'; // Tailwind md / lg
+export type FrameTier = 'high' | 'medium' | 'low';
+
+export interface DeviceCapabilities {
+  pointer: PointerKind;
+  touch: boolean; // primary input is a finger: coarse pointer, no hover
+  viewport: ViewportClass;
+  reducedMotion: boolean;
+  saveData: boolean; // Data Saver / prefers-reduced-data
+  batterySaver: boolean; // running low on battery and not charging
+  cores: number; // navigator.hardwareConcurrency; only a hint alongside frameTier
+  frameTier: FrameTier | null; // from a short rAF sample after load; null until measured
+  lightweight: boolean; // any of the above says to go easy: fewer particles, grid before cinematic
+}
+
+const TABLET_MIN = 768;
+const DESKTOP_MIN = 1024;
+const LOW_BATTERY = 0.2; // where most OS battery savers switch on
+// Browsers may under-report cores for privacy and some capable Chromebooks have two, so a low
+// count only tips a device into lightweight when its frame sample is middling too
+const FEW_CORES = 2;
+const SAMPLE_FRAMES = 60;
+const SAMPLE_DELAY_MS = 1000; // after load, so startup work doesn't count against the device
+const HIGH_MAX_MS = 20; // median frame interval for each tier; 20ms ~ 50fps
+const MEDIUM_MAX_MS = 34;
+
+// Not in the DOM lib yet
+interface NetworkInformation extends EventTarget {
+  saveData?: boolean;
+}
+
+interface BatteryManager extends EventTarget {
+  charging: boolean;
+  level: number; // 0..1
+}
+
+type NavigatorHints = Navigator & {
+  connection?: NetworkInformation;
+  getBattery?: () => Promise<BatteryManager>;
+};
+
+const media = (query: string) => window.matchMedia(query);
+
+const QUERIES = {
+  reducedMotion: '(prefers-reduced-motion: reduce)',
+  reducedData: '(prefers-reduced-data: reduce)',
+  touch: '(hover: none) and (pointer: coarse)',
+  coarse: '(pointer: coarse)',
+  fine: '(pointer: fine)',
+  tablet: `(min-width: ${TABLET_MIN}px)`,
+  desktop: `(min-width: ${DESKTOP_MIN}px)`,
+};
+
+// ---------- State ----------
+
+let battery: { charging: boolean; level: number } | null = null;
+let frameTier: FrameTier | null = null;
+
+const read = (): DeviceCapabilities => {
+  const nav = navigator as NavigatorHints;
+  const pointer: PointerKind = media(QUERIES.fine).matches ? 'fine' : media(QUERIES.coarse).matches ? 'coarse' : 'none';
+  const viewport: ViewportClass = media(QUERIES.desktop).matches
+    ? 'desktop'
+    : media(QUERIES.tablet).matches
+      ? 'tablet'
+      : 'phone';
+  const saveData = !!nav.connection?.saveData || media(QUERIES.reducedData).matches;
+  const batterySaver = !!battery && !battery.charging && battery.level <= LOW_BATTERY;
+  const cores = nav.hardwareConcurrency || 4; // unknown counts as an ordinary machine
+
+  return {
+    pointer,
+    touch: media(QUERIES.touch).matches,
+    viewport,
+    reducedMotion: media(QUERIES.reducedMotion).matches,
+    saveData,
+    batterySaver,
+    cores,
+    frameTier,
+    lightweight:
+      saveData || batterySaver || frameTier === 'low' || (frameTier === 'medium' && cores <= FEW_CORES),
+  };
+};
+
+const FALLBACK: DeviceCapabilities = {
+  pointer: 'fine',
+  touch: false,
+  viewport: 'desktop',
+  reducedMotion: false,
+  saveData: false,
+  batterySaver: false,
+  cores: 4,
+  frameTier: null,
+  lightweight: false,
+};
+
+let state: DeviceCapabilities = typeof window === 'undefined' ? FALLBACK : read();
+
+const listeners = new Set<() => void>();
+
+// Only publishes real changes, so subscribers don't re-render on every resize event
+const refresh = () => {
+  const next = read();
+  if ((Object.keys(next) as (keyof DeviceCapabilities)[]).every((key) => next[key] === state[key])) return;
+  state = next;
+  listeners.forEach((fn) => fn());
+};
+
+// ---------- Sources ----------
+
+// Median rAF interval over a short window; long gaps (tab in the background) are skipped
+const measureFrameTier = () => {
+  const intervals: number[] = [];
+
+  const remove = ticker.add((_t, dt) => {
+    if (dt > 0 && dt < 250) intervals.push(dt);
+    if (intervals.length < SAMPLE_FRAMES) return;
+    remove();
+    intervals.sort((a, b) => a - b);
+    const median = intervals[intervals.length >> 1];
+    frameTier = median <= HIGH_MAX_MS ? 'high' : median <= MEDIUM_MAX_MS ? 'medium' : 'low';
+    refresh();
+  }, LAYER.overlay);
+};
+
+// Listeners stay for the life of the page
+const start = () => {
+  Object.values(QUERIES).forEach((query) => media(query).addEventListener('change', refresh));
+
+  const nav = navigator as NavigatorHints;
+  nav.connection?.addEventListener('change', refresh);
+  nav
+    .getBattery?.()
+    .then((manager) => {
+      const update = () => {
+        battery = { charging: manager.charging, level: manager.level };
+        refresh();
+      };
+      update();
+      manager.addEventListener('chargingchange', update);
+      manager.addEventListener('levelchange', update);
+    })
+    .catch(() => {
+      // Blocked by permissions policy; no battery hint then
+    });
+
+  const measureLater = () => window.setTimeout(measureFrameTier, SAMPLE_DELAY_MS);
+  if (document.readyState === 'complete') measureLater();
+  else window.addEventListener('load', measureLater, { once: true });
+};
+
+if (typeof window !== 'undefined') start();
+
+export const deviceStore = {
+  get: () => state,
+  subscribe(fn: () => void) {
+    listeners.add(fn);
+    return () => {
+      listeners.delete(fn);
+    };
+  },
+};
@@ -0,0 +1,108 @@
+// Adaptive render quality shared by the canvas scenes. The starfield reports its frame
+// intervals here; the tier steps down when frames drop and back up once they've been clean
+// for a while, so the background stops dragging a slow laptop down. Other scenes follow
+// the tier through qualityStore / useQuality().
+
+import { deviceStore } from './device';
+
+export type QualityTierName = 'high' | 'medium' | 'low' | 'minimal';
+export type GlowQuality = 'gradient' | 'halo' | 'none'; // star glow: radial gradient, flat halo, bare dot
+
+export interface QualityTier {
+  name: QualityTierName;
+  starRatio: number; // share of the requested star count
+  maxDpr: number;
+  glow: GlowQuality;
+}
+
+// Best first
+export const QUALITY_TIERS: readonly QualityTier[] = [
+  { name: 'high', starRatio: 1, maxDpr: 2, glow: 'gradient' },
+  { name: 'medium', starRatio: 0.75, maxDpr: 1.5, glow: 'gradient' },
+  { name: 'low', starRatio: 0.5, maxDpr: 1, glow: 'halo' },
+  { name: 'minimal', starRatio: 0.3, maxDpr: 1, glow: 'none' },
+];
+
+const LIGHTWEIGHT_BEST = 2; // lightweight devices never go above 'low'
+
+const WINDOW = 60; // frames per verdict, about a second at 60fps
+const DROP_FACTOR = 1.5; // an interval this many times the window's baseline is a dropped frame
+const DOWN_DROP_RATE = 0.25; // one window this bad steps down
+const UP_DROP_RATE = 0.05; // windows this clean count toward stepping up
+const UP_WINDOWS = 4; // clean windows in a row before stepping up
+const MAX_UP_WINDOWS = 32;
+const BOUNCE_MS = 10_000; // dropping back this soon after stepping up doubles the wait next time
+const GAP_MS = 250; // longer intervals are pauses (hidden tab, debugger), not slow frames
+
+// ---------- State ----------
+
+const bestIndex = () => (deviceStore.get().lightweight ? LIGHTWEIGHT_BEST : 0);
+
+let index = bestIndex();
+let tier = QUALITY_TIERS[index];
+
+let samples: number[] = [];
+let cleanWindows = 0;
+let upWindows = UP_WINDOWS;
+let lastUpAt = -Infinity;
+
+const listeners = new Set<() => void>();
+
+const setIndex = (next: number) => {
+  const clamped = Math.min(QUALITY_TIERS.length - 1, Math.max(bestIndex(), next));
+  // A fresh window either way, so the old tier's frames don't judge the new one
+  samples = [];
+  cleanWindows = 0;
+  if (clamped === index) return;
+  index = clamped;
+  tier = QUALITY_TIERS[index];
+  listeners.forEach((fn) => fn());
+};
+
+// A device that turns lightweight (battery, Data Saver) drops to its cap right away
+deviceStore.subscribe(() => {
+  if (index < bestIndex()) setIndex(index);
+});
+
+// ---------- Sampling ----------
+
+const judge = (intervals: number[]) => {
+  const sorted = intervals.slice().sort((a, b) => a - b);
+  // The fastest tenth of this window approximates the current frame period. Measured per window,
+  // not kept as a page-long minimum, so a rate that settles lower (Low Power Mode's 30fps cap,
+  // a move from a 120Hz to a 60Hz display) becomes the new baseline instead of a permanent drop.
+  const baselineMs = sorted[Math.floor(sorted.length * 0.1)];
+  const dropped = intervals.filter((ms) => ms > baselineMs * DROP_FACTOR).length / intervals.length;
+
+  if (dropped >= DOWN_DROP_RATE) {
+    if (performance.now() - lastUpAt < BOUNCE_MS) upWindows = Math.min(MAX_UP_WINDOWS, upWindows * 2);
+    setIndex(index + 1);
+    return;
+  }
+
+  cleanWindows = dropped <= UP_DROP_RATE ? cleanWindows + 1 : 0;
+  if (cleanWindows >= upWindows && index > bestIndex()) {
+    lastUpAt = performance.now();
+    setIndex(index - 1);
+  }
+};
+
+// ms between two consecutive frames of a running scene
+export const reportInterval = (ms: number) => {
+  if (!(ms > 0) || ms > GAP_MS) return;
+  samples.push(ms);
+  if (samples.length < WINDOW) return;
+  const intervals = samples;
+  samples = [];
+  judge(intervals);
+};
+
+export const qualityStore = {
+  get: () => tier,
+  subscribe(fn: () => void) {
+    listeners.add(fn);
+    return () => {
+      listeners.delete(fn);
+    };
+  },
+};
@@ -0,0 +1,35 @@
+// Small deterministic PRNG helpers, so visuals keyed by a string (e.g. a project id)
+// look the same on every load.
+
+export type Rng = () => number; // uniform in [0, 1), like Math.random
+
+// cyrb53-style string hash folded to 32 bits
+export const hashString = (str: string): number => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+};
+
+// mulberry32: fast, 32-bit state, plenty for visual jitter
+export const mulberry32 = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createRng = (key: string): Rng => mulberry32(hashString(key));
+
+// Uniform in [min, max)
+export const range = (rng: Rng, min: number, max: number) => min + rng() * (max - min);
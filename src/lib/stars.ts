@@ -0,0 +1,213 @@
+// Shared star drawing for the canvas backgrounds. Glows are pre-rendered once into a small
+// sprite atlas and stamped with drawImage; hyperspeed streaks stretch one shared gradient strip,
+// so a frame never builds a gradient per star or streak.
+
+import type { GlowQuality } from './quality';
+
+export type StarTint = 'cool' | 'hyper';
+
+type Rgb = readonly [number, number, number];
+
+const TINTS: Record<StarTint, Rgb> = {
+  cool: [200, 230, 255], // starfield halo
+  hyper: [100, 200, 255], // hyperspeed blue
+};
+
+// ---------- Glow sprites ----------
+
+const GLOWS: readonly GlowQuality[] = ['gradient', 'halo', 'none'];
+const TINT_KEYS = Object.keys(TINTS) as StarTint[];
+const RADII = [1, 2, 3, 4, 6, 8, 12, 16]; // sprite radius buckets, device px
+const PAD = 1; // transparent border so scaled sprites don't bleed into their neighbours
+
+interface Atlas {
+  canvas: HTMLCanvasElement;
+  cells: Map<string, { x: number; y: number; r: number }>;
+}
+
+let atlas: Atlas | null = null;
+
+// Same look as the per-star radial gradient it replaces, at full alpha: globalAlpha scales it,
+// and every stop is proportional to the star's opacity
+const paintGlow = (ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number, glow: GlowQuality, [tr, tg, tb]: Rgb) => {
+  if (glow === 'gradient') {
+    const gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, r * 2);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(0.5, `rgba(${tr}, ${tg}, ${tb}, 0.5)`);
+    gradient.addColorStop(1, 'transparent');
+    ctx.beginPath();
+    ctx.arc(cx, cy, r, 0, Math.PI * 2);
+    ctx.fillStyle = gradient;
+    ctx.fill();
+    return;
+  }
+
+  // Flat approximations for the cheaper tiers: a faint halo (unless 'none') and a bright core
+  if (glow === 'halo') {
+    ctx.beginPath();
+    ctx.arc(cx, cy, r, 0, Math.PI * 2);
+    ctx.fillStyle = `rgba(${tr}, ${tg}, ${tb}, 0.35)`;
+    ctx.fill();
+  }
+  ctx.beginPath();
+  ctx.arc(cx, cy, r * 0.5, 0, Math.PI * 2);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.fill();
+};
+
+// One row per glow and tint, one cell per radius bucket; built on first use
+const buildAtlas = (): Atlas | null => {
+  const rowH = 2 * (RADII[RADII.length - 1] + PAD);
+  const rowW = RADII.reduce((w, r) => w + 2 * (r + PAD), 0);
+  const canvas = document.createElement('canvas');
+  canvas.width = rowW;
+  canvas.height = rowH * GLOWS.length * TINT_KEYS.length;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const cells: Atlas['cells'] = new Map();
+  let row = 0;
+  for (const glow of GLOWS) {
+    for (const tint of TINT_KEYS) {
+      let x = 0;
+      for (const r of RADII) {
+        const y = row * rowH;
+        paintGlow(ctx, x + r + PAD, y + r + PAD, r, glow, TINTS[tint]);
+        cells.set(`${glow}:${tint}:${r}`, { x, y, r });
+        x += 2 * (r + PAD);
+      }
+      row += 1;
+    }
+  }
+  return { canvas, cells };
+};
+
+const bucketFor = (radiusPx: number) => RADII.find((r) => r >= radiusPx) ?? RADII[RADII.length - 1];
+
+/**
+ * Stamps a star glow of `radius` CSS px centred on (x, y). `dpr` is the context's scale, used
+ * to pick a sprite at least as sharp as the screen needs; `alpha` is the star's opacity.
+ */
+export const drawStarSprite = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  radius: number,
+  dpr: number,
+  alpha: number,
+  glow: GlowQuality,
+  tint: StarTint = 'cool'
+) => {
+  if (!atlas) atlas = buildAtlas();
+  if (!atlas) return;
+  const cell = atlas.cells.get(`${glow}:${tint}:${bucketFor(radius * dpr)}`)!;
+
+  const k = radius / cell.r; // CSS px per sprite px
+  const side = 2 * (cell.r + PAD);
+  ctx.globalAlpha = alpha;
+  ctx.drawImage(atlas.canvas, cell.x, cell.y, side, side, x - (cell.r + PAD) * k, y - (cell.r + PAD) * k, side * k, side * k);
+  ctx.globalAlpha = 1;
+};
+
+// ---------- Streaks ----------
+
+// One horizontal strip holding the streak gradient: transparent tail, hyper blue at half alpha,
+// cool white head. Each streak stretches and rotates it between its endpoints, and globalAlpha
+// scales it, so streaks keep the per-streak gradient's look without building one each.
+const STREAK_LENGTH = 128; // sprite px along the streak
+const STREAK_THICKNESS = 4; // sprite px across; stretched to the streak's width
+const ALPHA_STEPS = 8;
+
+let streakSprite: HTMLCanvasElement | null = null;
+
+// Built on first use, like the glow atlas
+const buildStreakSprite = (): HTMLCanvasElement | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = STREAK_LENGTH;
+  canvas.height = STREAK_THICKNESS;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const [hr, hg, hb] = TINTS.hyper;
+  const [cr, cg, cb] = TINTS.cool;
+  const gradient = ctx.createLinearGradient(0, 0, STREAK_LENGTH, 0);
+  gradient.addColorStop(0, 'transparent');
+  gradient.addColorStop(0.5, `rgba(${hr}, ${hg}, ${hb}, 0.5)`);
+  gradient.addColorStop(1, `rgba(${cr}, ${cg}, ${cb}, 1)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, STREAK_LENGTH, STREAK_THICKNESS);
+  return canvas;
+};
+
+const POINT_STYLES = Array.from({ length: ALPHA_STEPS }, (_, i) => `rgba(255, 255, 255, ${((i + 1) / ALPHA_STEPS).toFixed(3)})`);
+
+export interface StreakBatch {
+  streak(x0: number, y0: number, x1: number, y1: number, width: number, alpha: number): void; // tail -> head
+  point(x: number, y: number, r: number, alpha: number): void;
+  flush(ctx: CanvasRenderingContext2D): void; // draws everything added since the last flush
+}
+
+// Coordinates are kept in flat arrays and reused frame to frame; head points are bucketed by
+// alpha so they fill in a few paths
+export const createStreakBatch = (): StreakBatch => {
+  const streaks: number[] = [];
+  const points = new Map<number, number[]>();
+
+  const alphaIndex = (alpha: number) => Math.max(0, Math.min(ALPHA_STEPS - 1, Math.round(alpha * ALPHA_STEPS) - 1));
+
+  const drawStreaks = (ctx: CanvasRenderingContext2D) => {
+    if (!streakSprite) streakSprite = buildStreakSprite();
+    if (!streakSprite) {
+      streaks.length = 0;
+      return;
+    }
+
+    const base = ctx.getTransform();
+    for (let i = 0; i < streaks.length; i += 6) {
+      const x0 = streaks[i];
+      const y0 = streaks[i + 1];
+      const dx = streaks[i + 2] - x0;
+      const dy = streaks[i + 3] - y0;
+      const width = streaks[i + 4];
+      const length = Math.hypot(dx, dy);
+      if (length === 0) continue;
+      // Unit square -> streak: x runs tail to head, y spans the width around the line
+      ctx.setTransform(base);
+      ctx.transform(dx, dy, (-dy / length) * width, (dx / length) * width, x0, y0);
+      ctx.globalAlpha = streaks[i + 5];
+      ctx.drawImage(streakSprite, 0, -0.5, 1, 1);
+    }
+    ctx.setTransform(base);
+    ctx.globalAlpha = 1;
+    streaks.length = 0;
+  };
+
+  return {
+    streak(x0, y0, x1, y1, width, alpha) {
+      streaks.push(x0, y0, x1, y1, width, alpha);
+    },
+
+    point(x, y, r, alpha) {
+      const key = alphaIndex(alpha);
+      let list = points.get(key);
+      if (!list) points.set(key, (list = []));
+      list.push(x, y, r);
+    },
+
+    flush(ctx) {
+      drawStreaks(ctx);
+
+      points.forEach((list, key) => {
+        if (!list.length) return;
+        ctx.beginPath();
+        for (let i = 0; i < list.length; i += 3) {
+          ctx.moveTo(list[i] + list[i + 2], list[i + 1]);
+          ctx.arc(list[i], list[i + 1], list[i + 2], 0, Math.PI * 2);
+        }
+        ctx.fillStyle = POINT_STYLES[key];
+        ctx.fill();
+        list.length = 0;
+      });
+    },
+  };
+};
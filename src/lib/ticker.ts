@@ -0,0 +1,81 @@
+// One requestAnimationFrame loop for every animated layer on the page. Layers run in
+// ascending order each frame. The loop only runs while something is registered, and stops
+// outright while the tab is hidden (worker-driven scenes included, since they tick from here).
+// A layer that throws is logged and dropped; the others keep running.
+
+// Lower runs first: camera moves land before the scene that draws with them
+export const LAYER = {
+  camera: 0,
+  background: 10,
+  scene: 20,
+  transition: 30,
+  overlay: 40,
+} as const;
+
+// t: rAF timestamp (ms). dt: ms since the previous frame; 0 on the first frame after a
+// start or a resume, so nothing jumps by however long the tab was hidden.
+export type TickFn = (t: number, dt: number) => void;
+
+interface Layer {
+  order: number;
+  tick: TickFn;
+}
+
+let layers: Layer[] = [];
+let raf = 0;
+let lastT: number | null = null;
+
+const hidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+const frame = (t: number) => {
+  raf = 0;
+  const dt = lastT === null ? 0 : t - lastT;
+  lastT = t;
+  // `layers` is replaced, never mutated, so this is a snapshot: layers added mid-frame start
+  // next frame, and ones removed mid-frame are skipped
+  const current = layers;
+  for (const layer of current) {
+    if (current !== layers && !layers.includes(layer)) continue;
+    try {
+      layer.tick(t, dt);
+    } catch (error) {
+      console.error('Ticker layer failed and was removed:', error);
+      remove(layer);
+    }
+  }
+  schedule();
+};
+
+const schedule = () => {
+  if (raf || !layers.length || hidden()) return;
+  raf = requestAnimationFrame(frame);
+};
+
+const stop = () => {
+  if (raf) cancelAnimationFrame(raf);
+  raf = 0;
+  lastT = null;
+};
+
+const remove = (layer: Layer) => {
+  layers = layers.filter((l) => l !== layer);
+  if (!layers.length) stop();
+};
+
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (hidden()) stop();
+    else schedule();
+  });
+}
+
+export const ticker = {
+  // Registers a layer; the returned function removes it
+  add(tick: TickFn, order: number = LAYER.scene) {
+    const layer: Layer = { order, tick };
+    const at = layers.findIndex((l) => l.order > order);
+    layers = at === -1 ? [...layers, layer] : [...layers.slice(0, at), layer, ...layers.slice(at)];
+    schedule();
+    return () => remove(layer);
+  },
+};
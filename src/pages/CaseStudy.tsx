@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { ArrowLeft, BookOpen, Clock, ExternalLink, Github, List } from 'lucide-react';
+import MarkdownContent from '@/components/MarkdownContent';
+import SkillChip from '@/components/SkillChip';
+import { projects, hasLink } from '@/data/content';
+import { extractHeadings, hasCaseStudy, loadCaseStudy, readingTimeMinutes } from '@/data/caseStudies';
+
+// Highlight the TOC entry for the section currently in view
+const useActiveHeading = (ids: string[]) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!ids.length) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const visible = entries
+          .filter((e) => e.isIntersecting)
+          .sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top);
+        if (visible[0]) setActiveId(visible[0].target.id);
+      },
+      // Treat the band just under the fixed nav as "current"
+      { rootMargin: '-112px 0px -60% 0px' }
+    );
+
+    ids.forEach((id) => {
+      const el = document.getElementById(id);
+      if (el) observer.observe(el);
+    });
+
+    return () => observer.disconnect();
+  }, [ids]);
+
+  return activeId;
+};
+
+const CaseStudy = () => {
+  const { id = '' } = useParams();
+  const project = projects.find((p) => p.id === id);
+  const available = !!project && hasCaseStudy(id);
+
+  const { data: markdown, isLoading } = useQuery({
+    queryKey: ['case-study', id],
+    queryFn: () => loadCaseStudy(id),
+    enabled: available,
+    staleTime: Infinity,
+  });
+
+  const headings = useMemo(() => (markdown ? extractHeadings(markdown) : []), [markdown]);
+  const headingIds = useMemo(() => headings.map((h) => h.id), [headings]);
+  const readingTime = useMemo(() => (markdown ? readingTimeMinutes(markdown) : null), [markdown]);
+  const activeId = useActiveHeading(headingIds);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [id]);
+
+  if (!project || !available) {
+    return (
+      <div className="relative min-h-screen flex items-center justify-center px-4">
+        <div className="relative z-20 hologram-card max-w-md text-center">
+          <p className="text-xs text-hologram font-mono uppercase tracking-widest mb-2">
+            // SIGNAL LOST
+          </p>
+          <h1 className="font-orbitron text-2xl text-foreground mb-3">Case study not found</h1>
+          <p className="text-muted-foreground text-sm mb-6">
+            {project
+              ? `There's no long-form write-up for ${project.name} yet.`
+              : `No project with id "${id}" exists in this sector.`}
+          </p>
+          <Link
+            to={project ? `/projects/${project.id}` : '/projects'}
+            className="inline-flex items-center gap-2 px-5 py-2.5 rounded-md bg-primary text-primary-foreground
+                       font-medium text-sm hover:bg-primary/90 transition-colors"
+          >
+            <ArrowLeft size={16} />
+            {project ? 'Back to project' : 'Back to all projects'}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative min-h-screen">
+      <div
+        className="fixed inset-0 z-10 pointer-events-none"
+        style={{
+          background:
+            'linear-gradient(to bottom, hsl(var(--space-dark) / 0.7), hsl(var(--space-deep) / 0.55), hsl(var(--space-dark) / 0.75))',
+        }}
+      />
+
+      <main className="relative z-20 pt-28 md:pt-32 pb-16 px-4">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-10"
+          >
+            <Link
+              to={`/projects/${project.id}`}
+              className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary
+                         transition-colors mb-6"
+            >
+              <ArrowLeft size={16} />
+              Back to project
+            </Link>
+
+            <div className="flex items-center gap-2 text-hologram text-xs font-mono mb-3">
+              <BookOpen size={14} />
+              <span>// CASE STUDY</span>
+            </div>
+
+            <h1 className="font-orbitron text-3xl md:text-4xl lg:text-5xl text-foreground mb-3">
+              {project.name}
+            </h1>
+            <p className="text-lg text-muted-foreground max-w-2xl">{project.tagline}</p>
+
+            <div className="flex flex-wrap items-center gap-4 mt-5 text-sm text-muted-foreground">
+              {readingTime !== null && (
+                <span className="flex items-center gap-1.5">
+                  <Clock size={14} className="text-hologram/60" />
+                  {readingTime} min read
+                </span>
+              )}
+              {hasLink(project.links.demo) && (
+                <a
+                  href={project.links.demo}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1.5 hover:text-primary transition-colors"
+                >
+                  <ExternalLink size={14} />
+                  Demo
+                </a>
+              )}
+              {hasLink(project.links.github) && (
+                <a
+                  href={project.links.github}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1.5 hover:text-primary transition-colors"
+                >
+                  <Github size={14} />
+                  Source
+                </a>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mt-4">
+              {project.tech.map((tech) => (
+                <SkillChip
+                  key={tech}
+                  name={tech}
+                  className="px-3 py-1 rounded-full text-xs font-medium
+                             bg-primary/10 text-primary border border-primary/20"
+                />
+              ))}
+            </div>
+          </motion.div>
+
+          <div className="grid lg:grid-cols-[220px_1fr] gap-10 items-start">
+            {/* Table of contents */}
+            {headings.length > 0 && (
+              <nav aria-label="Table of contents" className="lg:sticky lg:top-28 hud-panel p-4">
+                <p className="flex items-center gap-2 text-xs text-muted-foreground uppercase tracking-wider mb-3">
+                  <List size={12} />
+                  Contents
+                </p>
+                <ul className="space-y-1.5 text-sm">
+                  {headings.map((h) => (
+                    <li key={h.id} className={h.depth === 3 ? 'pl-3' : ''}>
+                      <a
+                        href={`#${h.id}`}
+                        onClick={(e) => {
+                          // HashRouter owns the URL hash, so scroll manually instead
+                          e.preventDefault();
+                          document.getElementById(h.id)?.scrollIntoView({ behavior: 'smooth' });
+                        }}
+                        className={`block transition-colors ${
+                          activeId === h.id ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+                        }`}
+                      >
+                        {h.text}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </nav>
+            )}
+
+            {/* Body */}
+            <motion.article
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className={`hologram-card min-w-0 md:p-8 ${headings.length ? '' : 'lg:col-span-2'}`}
+            >
+              {isLoading || !markdown ? (
+                <p className="text-sm font-mono text-muted-foreground">// DECRYPTING TRANSMISSION...</p>
+              ) : (
+                <MarkdownContent>{markdown}</MarkdownContent>
+              )}
+            </motion.article>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default CaseStudy;
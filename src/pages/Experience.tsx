@@ -1,8 +1,32 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Radio, Download } from 'lucide-react';
 import HologramTimeline from '@/components/HologramTimeline';
+import SkillChip from '@/components/SkillChip';
+import { skillCategories, skillsByCategory, type SkillCategory } from '@/data/skills';
+import { resumeUrl } from '@/data/site';
+
+const categoryChipStyles: Record<SkillCategory, string> = {
+  frontend: 'bg-primary/10 text-primary border border-primary/20',
+  backend: 'bg-secondary/10 text-secondary-foreground border border-secondary/20',
+  'systems-data': 'bg-accent/10 text-accent border border-accent/20',
+  other: 'bg-hologram/10 text-hologram border border-hologram/20',
+};
 
 const Experience = () => {
+  const [searchParams] = useSearchParams();
+  const roleId = searchParams.get('role');
+
+  // /experience?role=<id> (from skill chips) scrolls to that mission log
+  useEffect(() => {
+    if (!roleId) return;
+    const id = window.setTimeout(() => {
+      document.getElementById(`role-${roleId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, 150);
+    return () => window.clearTimeout(id);
+  }, [roleId]);
+
   return (
     <div className="relative min-h-screen overflow-hidden">
       {/* Optional: subtle tint overlay WITHOUT hiding stars */}
@@ -38,7 +62,7 @@ const Experience = () => {
             </p>
 
             <motion.a
-              href={`${import.meta.env.BASE_URL}resume.pdf`}
+              href={resumeUrl}
               target="_blank"
               rel="noopener noreferrer"
               initial={{ opacity: 0, y: 10 }}
@@ -73,77 +97,22 @@ const Experience = () => {
               <h2 className="font-orbitron text-xl text-foreground mb-6">Core Competencies</h2>
 
               <div className="grid sm:grid-cols-2 gap-6">
-                <div>
-                  <h3 className="text-sm text-muted-foreground uppercase tracking-wider mb-3">
-                    Frontend
-                  </h3>
-                  <div className="flex flex-wrap gap-2">
-                    {['React', 'TypeScript', 'Next.js', 'HTML/CSS', 'Tailwind CSS', 'Framer Motion'].map(
-                      (skill) => (
-                        <span
-                          key={skill}
-                          className="px-3 py-1.5 rounded-md text-sm
-                                  bg-primary/10 text-primary border border-primary/20"
-                        >
-                          {skill}
-                        </span>
-                      )
-                    )}
-                  </div>
-                </div>
-
-                <div>
-                  <h3 className="text-sm text-muted-foreground uppercase tracking-wider mb-3">
-                    Backend
-                  </h3>
-                  <div className="flex flex-wrap gap-2">
-                    {['Node.js', 'Python', 'WebSockets', 'REST APIs', 'PostgreSQL', 'MongoDB',].map(
-                      (skill) => (
-                        <span
-                          key={skill}
-                          className="px-3 py-1.5 rounded-md text-sm
-                                  bg-secondary/10 text-secondary-foreground border border-secondary/20"
-                        >
-                          {skill}
-                        </span>
-                      )
-                    )}
-                  </div>
-                </div>
-
-                <div>
-                  <h3 className="text-sm text-muted-foreground uppercase tracking-wider mb-3">
-                    SYSTEMS & DATA
-                  </h3>
-                  <div className="flex flex-wrap gap-2">
-                    {['C++','Serial I/O','Pandas','NLP','Dart'].map((skill) => (
-                      <span
-                        key={skill}
-                        className="px-3 py-1.5 rounded-md text-sm
-                                  bg-accent/10 text-accent border border-accent/20"
-                      >
-                        {skill}
-                      </span>
-                    ))}
-                  </div>
-                </div>
-
-                <div>
-                  <h3 className="text-sm text-muted-foreground uppercase tracking-wider mb-3">
-                    Other Skills
-                  </h3>
-                  <div className="flex flex-wrap gap-2">
-                    {['Leadership', 'Public Speaking', 'Market-Analysis', 'Backtesting'].map((skill) => (
-                      <span
-                        key={skill}
-                        className="px-3 py-1.5 rounded-md text-sm
-                                  bg-hologram/10 text-hologram border border-hologram/20"
-                      >
-                        {skill}
-                      </span>
-                    ))}
+                {skillCategories.map((category) => (
+                  <div key={category.id}>
+                    <h3 className="text-sm text-muted-foreground uppercase tracking-wider mb-3">
+                      {category.label}
+                    </h3>
+                    <div className="flex flex-wrap gap-2">
+                      {skillsByCategory(category.id).map((skill) => (
+                        <SkillChip
+                          key={skill.id}
+                          name={skill.name}
+                          className={`px-3 py-1.5 rounded-md text-sm ${categoryChipStyles[category.id]}`}
+                        />
+                      ))}
+                    </div>
                   </div>
-                </div>
+                ))}
               </div>
             </div>
           </motion.div>
@@ -11,25 +11,26 @@ import {
   Github,
   Linkedin,
 } from "lucide-react";
-import Starfield from "@/components/Starfield";
 import Navigation from "@/components/Navigation";
 import HudCard from "@/components/HudCard";
 import HyperspeedTransition from "@/components/HyperspeedTransition";
 import DevpostIcon from "@/components/icons/DevpostIcon";
+import SkillChip from "@/components/SkillChip";
+import { featuredSkills } from "@/data/skills";
+import { contactEmail } from "@/data/site";
+import { useBackground } from "@/hooks/use-background";
+import { deviceStore } from "@/lib/device";
 
 const Index = () => {
   const navigate = useNavigate();
   const [isHyperspeed, setIsHyperspeed] = useState(false);
+  useBackground({ speed: 0.5 });
 
   const handleProjectsClick = useCallback(
     (e: React.MouseEvent) => {
       e.preventDefault();
 
-      const prefersReducedMotion = window.matchMedia(
-        "(prefers-reduced-motion: reduce)"
-      ).matches;
-
-      if (prefersReducedMotion) {
+      if (deviceStore.get().reducedMotion) {
         navigate("/projects");
         return;
       }
@@ -46,8 +47,6 @@ const Index = () => {
 
   return (
     <div className="relative min-h-screen min-h-[100dvh]">
-      {/* Background */}
-      <Starfield />
       <Navigation />
 
       {/* Hyperspeed Transition Overlay */}
@@ -168,24 +167,15 @@ const Index = () => {
               glowColor="secondary"
             >
               <div className="flex flex-wrap gap-2">
-                {[
-                  "React",
-                  "TypeScript",
-                  "Node.js",
-                  "PostgreSQL",
-                  "Python",
-                  "Dart",
-                  "Java",
-                  "Git",
-                ].map((tech) => (
-                  <span
-                    key={tech}
+                {featuredSkills.map((skill) => (
+                  <SkillChip
+                    key={skill.id}
+                    name={skill.name}
+                    showIcon
                     className="px-2 py-1 rounded text-xs font-medium
                               bg-secondary/10 text-secondary-foreground border border-secondary/20
                               hover:border-secondary/50 transition-colors"
-                  >
-                    {tech}
-                  </span>
+                  />
                 ))}
               </div>
             </HudCard>
@@ -234,7 +224,7 @@ const Index = () => {
                   <DevpostIcon size={20} />
                 </a>
                 <a
-                  href="mailto:johannaresh@gmail.com"
+                  href={`mailto:${contactEmail}`}
                   className="p-2 rounded-md text-muted-foreground hover:text-primary
                             hover:bg-primary/10 transition-all duration-300"
                   aria-label="Email"
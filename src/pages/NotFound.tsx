@@ -2,10 +2,11 @@ import { Link, useLocation } from "react-router-dom";
 import { useEffect } from "react";
 import { motion } from "framer-motion";
 import { AlertTriangle, Home, Rocket } from "lucide-react";
-import Starfield from "@/components/Starfield";
+import { useBackground } from "@/hooks/use-background";
 
 const NotFound = () => {
   const location = useLocation();
+  useBackground({ starCount: 100, speed: 0.1 });
 
   useEffect(() => {
     console.error("404 Error: User attempted to access non-existent route:", location.pathname);
@@ -13,8 +14,6 @@ const NotFound = () => {
 
   return (
     <div className="relative min-h-screen flex items-center justify-center overflow-hidden">
-      <Starfield starCount={100} speed={0.1} />
-      
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -0,0 +1,182 @@
+import { useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Briefcase, ChevronRight, Clock, FolderGit2, Layers, Tag } from 'lucide-react';
+import { formatDuration, formatPeriod } from '@/data/period';
+import {
+  getRelatedSkills,
+  getSkill,
+  getSkillMonths,
+  getSkillUsage,
+  proficiencyLabels,
+  resolveSkill,
+  skillCategories,
+} from '@/data/skills';
+
+const Tech = () => {
+  const { tag = '' } = useParams();
+
+  // Accept canonical ids (/tech/nodejs) as well as raw names or aliases (/tech/Node.js)
+  const skill = useMemo(() => getSkill(tag) ?? resolveSkill(tag), [tag]);
+  const { projects, experiences } = getSkillUsage(skill.id);
+  const months = getSkillMonths(skill.id);
+  const related = useMemo(() => getRelatedSkills(skill.id), [skill.id]);
+  const category = skillCategories.find((c) => c.id === skill.category);
+  const isKnown = !!getSkill(skill.id) || projects.length > 0 || experiences.length > 0;
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [tag]);
+
+  if (!isKnown) {
+    return (
+      <div className="relative min-h-screen flex items-center justify-center px-4">
+        <div className="relative z-20 hologram-card max-w-md text-center">
+          <p className="text-xs text-hologram font-mono uppercase tracking-widest mb-2">
+            // SIGNAL LOST
+          </p>
+          <h1 className="font-orbitron text-2xl text-foreground mb-3">Unknown technology</h1>
+          <p className="text-muted-foreground text-sm mb-6">
+            Nothing in this sector is tagged <span className="font-mono text-foreground">"{tag}"</span>.
+          </p>
+          <Link
+            to="/experience"
+            className="inline-flex items-center gap-2 px-5 py-2.5 rounded-md bg-primary text-primary-foreground
+                       font-medium text-sm hover:bg-primary/90 transition-colors"
+          >
+            <ArrowLeft size={16} />
+            Browse all skills
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative min-h-screen overflow-hidden">
+      <main className="relative z-20 pt-28 md:pt-32 pb-16 px-4">
+        <div className="max-w-5xl mx-auto">
+          {/* Header */}
+          <motion.div
+            key={skill.id}
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-12"
+          >
+            <div className="flex items-center gap-2 text-primary text-xs font-mono mb-2">
+              <Tag size={14} />
+              <span>// TECH SCAN: {category?.label.toUpperCase()}</span>
+            </div>
+
+            <h1 className="font-orbitron text-3xl md:text-4xl text-foreground">{skill.name}</h1>
+
+            <div className="flex flex-wrap gap-3 mt-5">
+              <div className="hud-panel px-4 py-3">
+                <p className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground">Projects</p>
+                <p className="font-orbitron text-2xl text-primary">{projects.length}</p>
+              </div>
+              <div className="hud-panel px-4 py-3">
+                <p className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground">Roles</p>
+                <p className="font-orbitron text-2xl text-hologram">{experiences.length}</p>
+              </div>
+              <div className="hud-panel px-4 py-3">
+                <p className="flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+                  <Clock size={10} />
+                  Professional use
+                </p>
+                <p className="font-orbitron text-2xl text-accent">{months > 0 ? formatDuration(months) : '—'}</p>
+              </div>
+              {skill.proficiency && (
+                <div className="hud-panel px-4 py-3">
+                  <p className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground">Proficiency</p>
+                  <p className="font-orbitron text-2xl text-foreground">{proficiencyLabels[skill.proficiency]}</p>
+                </div>
+              )}
+            </div>
+          </motion.div>
+
+          <div className="grid md:grid-cols-2 gap-8">
+            {/* Projects */}
+            <section>
+              <h2 className="flex items-center gap-2 text-xs text-muted-foreground uppercase tracking-wider mb-4">
+                <FolderGit2 size={14} className="text-primary" />
+                Projects
+              </h2>
+              {projects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No projects tagged yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {projects.map((p) => (
+                    <Link
+                      key={p.id}
+                      to={`/projects/${p.id}`}
+                      className="block hud-panel p-4 hover:border-primary/60 transition-colors group"
+                    >
+                      <p className="font-orbitron text-foreground group-hover:text-primary transition-colors">
+                        {p.name}
+                      </p>
+                      <p className="text-sm text-muted-foreground mt-1">{p.tagline}</p>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {/* Roles */}
+            <section>
+              <h2 className="flex items-center gap-2 text-xs text-muted-foreground uppercase tracking-wider mb-4">
+                <Briefcase size={14} className="text-hologram" />
+                Roles
+              </h2>
+              {experiences.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No roles tagged yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {experiences.map((exp) => (
+                    <Link
+                      key={exp.id}
+                      to={`/experience?role=${exp.id}`}
+                      className="block hologram-card p-4 hover:border-hologram/60 transition-colors group"
+                    >
+                      <p className="font-orbitron text-foreground group-hover:text-hologram transition-colors">
+                        {exp.role}
+                      </p>
+                      <p className="text-sm text-primary">{exp.company}</p>
+                      <p className="text-xs text-muted-foreground mt-1">{formatPeriod(exp)}</p>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+
+          {/* Related */}
+          {related.length > 0 && (
+            <section className="mt-12">
+              <h2 className="flex items-center gap-2 text-xs text-muted-foreground uppercase tracking-wider mb-4">
+                <Layers size={14} className="text-secondary" />
+                Often used with
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                {related.map((r) => (
+                  <Link
+                    key={r.id}
+                    to={`/tech/${r.id}`}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 rounded-md text-sm
+                               bg-secondary/10 text-secondary-foreground border border-secondary/20
+                               hover:border-secondary/50 transition-colors"
+                  >
+                    {r.name}
+                    <ChevronRight size={12} className="opacity-60" />
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Tech;
@@ -1,6 +1,79 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { experiencesSchema, formatContentError, projectsSchema } from "./src/data/schema";
+
+const contentFiles = [
+  { file: "src/data/projects.json", schema: projectsSchema },
+  { file: "src/data/experience.json", schema: experiencesSchema },
+];
+
+const caseStudyDir = "src/data/case-studies";
+
+// Case studies are keyed by filename, so every <id>.md must match a project
+const checkCaseStudies = (root: string, projects: unknown) => {
+  const dir = path.resolve(root, caseStudyDir);
+  if (!fs.existsSync(dir) || !Array.isArray(projects)) return [];
+
+  const ids = new Set(projects.map((p) => (p as { id?: unknown })?.id));
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".md") && !ids.has(name.slice(0, -3)))
+    .map((name) => `${caseStudyDir}/${name} does not match any project id in src/data/projects.json`);
+};
+
+// Validate portfolio content against the zod schemas.
+// Build: fails with a readable error. Dev: reports through the error overlay on every edit.
+const validateContent = (): Plugin => {
+  const check = (root: string) => {
+    const errors: string[] = [];
+    for (const { file, schema } of contentFiles) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(fs.readFileSync(path.resolve(root, file), "utf-8"));
+      } catch (e) {
+        errors.push(`Could not read ${file}: ${(e as Error).message}`);
+        continue;
+      }
+      const result = schema.safeParse(raw);
+      if (!result.success) errors.push(formatContentError(file, raw, result.error));
+      if (schema === projectsSchema) errors.push(...checkCaseStudies(root, raw));
+    }
+    return errors;
+  };
+
+  let root = process.cwd();
+  let isBuild = true;
+
+  return {
+    name: "validate-content",
+    configResolved(config) {
+      root = config.root;
+      isBuild = config.command === "build";
+    },
+    buildStart() {
+      const errors = check(root);
+      if (!errors.length) return;
+      // Keep the dev server alive; the app itself throws the same error on load
+      if (isBuild) this.error(errors.join("\n\n"));
+      else this.warn(errors.join("\n\n"));
+    },
+    handleHotUpdate({ file, server }) {
+      const isContent =
+        contentFiles.some((c) => path.resolve(root, c.file) === file) ||
+        file.startsWith(path.resolve(root, caseStudyDir));
+      if (!isContent) return;
+      const errors = check(root);
+      if (!errors.length) return;
+
+      const message = errors.join("\n\n");
+      server.config.logger.error(message);
+      server.ws.send({ type: "error", err: { message, stack: "", plugin: "validate-content" } });
+      return [];
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig(() => ({
@@ -9,7 +82,7 @@ export default defineConfig(() => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react()],
+  plugins: [react(), validateContent()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),